@@ -15,6 +15,7 @@ interface ContainerInput {
   chatJid: string;
   isMain: boolean;
   isScheduledTask?: boolean;
+  runId?: string;
 }
 
 interface ContainerOutput {
@@ -24,6 +25,11 @@ interface ContainerOutput {
   error?: string;
 }
 
+// Intermediate progress, streamed to the host while the agent works
+type ContainerEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; tool: string; summary?: string };
+
 interface SessionEntry {
   sessionId: string;
   fullPath: string;
@@ -54,6 +60,31 @@ function writeOutput(output: ContainerOutput): void {
   console.log(OUTPUT_END_MARKER);
 }
 
+const EVENT_START_MARKER = '---NANOCLAW_EVENT_START---';
+const EVENT_END_MARKER = '---NANOCLAW_EVENT_END---';
+
+function writeEvent(event: ContainerEvent): void {
+  console.log(EVENT_START_MARKER);
+  console.log(JSON.stringify(event));
+  console.log(EVENT_END_MARKER);
+}
+
+/**
+ * Pick a short human-readable hint from a tool's input (query, path, URL...).
+ */
+function summarizeToolInput(input: unknown): string | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const fields = input as Record<string, unknown>;
+  for (const key of ['description', 'query', 'file_path', 'url', 'pattern', 'command', 'prompt']) {
+    const value = fields[key];
+    if (typeof value === 'string' && value.trim()) {
+      const oneLine = value.trim().replace(/\s+/g, ' ');
+      return oneLine.length > 80 ? oneLine.slice(0, 77) + '...' : oneLine;
+    }
+  }
+  return undefined;
+}
+
 function log(message: string): void {
   console.error(`[agent-runner] ${message}`);
 }
@@ -219,7 +250,8 @@ async function main(): Promise<void> {
   const ipcMcp = createIpcMcp({
     chatJid: input.chatJid,
     groupFolder: input.groupFolder,
-    isMain: input.isMain
+    isMain: input.isMain,
+    runId: input.runId
   });
 
   let result: string | null = null;
@@ -271,6 +303,17 @@ async function main(): Promise<void> {
         log(`Session initialized: ${newSessionId}`);
       }
 
+      // Stream top-level progress (subagent chatter stays inside the container)
+      if (message.type === 'assistant' && !message.parent_tool_use_id) {
+        for (const block of message.message.content) {
+          if (block.type === 'text' && block.text.trim()) {
+            writeEvent({ type: 'text', text: block.text });
+          } else if (block.type === 'tool_use') {
+            writeEvent({ type: 'tool_use', tool: block.name, summary: summarizeToolInput(block.input) });
+          }
+        }
+      }
+
       if ('result' in message && message.result) {
         result = message.result as string;
       }
@@ -9,18 +9,49 @@ import fs from 'fs';
 import path from 'path';
 import { CronExpressionParser } from 'cron-parser';
 import { spawnCoder, CoderTask } from './modal-coder.js';
+import {
+  IPC_SCHEMA_VERSION,
+  IpcMessageRequestInput,
+  IpcResponse,
+  IpcTaskRequestInput,
+  parseIpcMessageRequest,
+  parseIpcTaskRequest
+} from './ipc-schema.js';
 
 const IPC_DIR = '/workspace/ipc';
+const GROUP_DIR = '/workspace/group';
 const MESSAGES_DIR = path.join(IPC_DIR, 'messages');
 const TASKS_DIR = path.join(IPC_DIR, 'tasks');
+const RESPONSES_DIR = path.join(IPC_DIR, 'responses');
+const RESPONSE_TIMEOUT = 30000;
+const RESPONSE_POLL_INTERVAL = 250;
 
 export interface IpcMcpContext {
   chatJid: string;
   groupFolder: string;
   isMain: boolean;
+  // Stamped on every request so the host checks it against this run's role
+  runId?: string;
 }
 
-function writeIpcFile(dir: string, data: object): string {
+type IpcRequestInput = IpcMessageRequestInput | IpcTaskRequestInput;
+
+// Set by createIpcMcp; one agent runner serves one run
+let runId: string | undefined;
+
+/**
+ * Validate a request against the shared schema and write it to messages/ or tasks/.
+ * Throws if it doesn't validate, so the agent sees the problem instead of the host quarantining it.
+ */
+function writeIpcFile(data: IpcRequestInput): string {
+  const isMessage = data.type === 'message' || data.type === 'file';
+  const request = { ...data, v: IPC_SCHEMA_VERSION, timestamp: new Date().toISOString(), runId };
+  const parsed = isMessage ? parseIpcMessageRequest(request) : parseIpcTaskRequest(request);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${data.type} request: ${parsed.error}`);
+  }
+
+  const dir = isMessage ? MESSAGES_DIR : TASKS_DIR;
   fs.mkdirSync(dir, { recursive: true });
 
   const filename = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
@@ -28,14 +59,99 @@ function writeIpcFile(dir: string, data: object): string {
 
   // Atomic write: temp file then rename
   const tempPath = `${filepath}.tmp`;
-  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.writeFileSync(tempPath, JSON.stringify(request, null, 2));
   fs.renameSync(tempPath, filepath);
 
   return filename;
 }
 
+interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Wait for the host's acknowledgement of a request (same filename under responses/).
+ * Returns null if the host hasn't answered within the timeout.
+ */
+async function waitForResponse(requestFile: string): Promise<IpcResponse | null> {
+  const responsePath = path.join(RESPONSES_DIR, requestFile);
+  const deadline = Date.now() + RESPONSE_TIMEOUT;
+
+  while (Date.now() < deadline) {
+    if (fs.existsSync(responsePath)) {
+      try {
+        const response: IpcResponse = JSON.parse(fs.readFileSync(responsePath, 'utf-8'));
+        fs.unlinkSync(responsePath);
+        return response;
+      } catch {
+        // Host writes atomically, but retry on the next tick just in case
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, RESPONSE_POLL_INTERVAL));
+  }
+  return null;
+}
+
+/**
+ * Write a request for the host and report its outcome to the agent.
+ */
+async function submitIpcRequest(data: IpcRequestInput, pendingText: string): Promise<ToolResult> {
+  let filename: string;
+  try {
+    filename = writeIpcFile(data);
+  } catch (err) {
+    return {
+      content: [{ type: 'text', text: err instanceof Error ? err.message : String(err) }],
+      isError: true
+    };
+  }
+  const response = await waitForResponse(filename);
+
+  if (!response) {
+    return {
+      content: [{
+        type: 'text',
+        text: `${pendingText} (${filename}). The host has not confirmed it yet, so it may still succeed or fail.`
+      }]
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: response.ok ? response.message : `Failed: ${response.message}` }],
+    isError: !response.ok
+  };
+}
+
+/**
+ * Check a schedule value against its type, returning a hint for the agent if it's invalid.
+ */
+function validateSchedule(scheduleType: 'cron' | 'interval' | 'once' | 'after_task', scheduleValue: string): string | null {
+  if (scheduleType === 'after_task') {
+    // The host checks that the tasks exist and don't form a cycle
+    if (!scheduleValue.split(',').some(id => id.trim())) {
+      return 'after_task needs upstream task IDs, e.g. "task-123" or "task-123,task-456". Use list_tasks to find them.';
+    }
+  } else if (scheduleType === 'cron') {
+    try {
+      CronExpressionParser.parse(scheduleValue);
+    } catch {
+      return `Invalid cron: "${scheduleValue}". Use format like "0 9 * * *" (daily 9am) or "*/5 * * * *" (every 5 min).`;
+    }
+  } else if (scheduleType === 'interval') {
+    const ms = parseInt(scheduleValue, 10);
+    if (isNaN(ms) || ms <= 0) {
+      return `Invalid interval: "${scheduleValue}". Must be positive milliseconds (e.g., "300000" for 5 min).`;
+    }
+  } else if (isNaN(new Date(scheduleValue).getTime())) {
+    return `Invalid timestamp: "${scheduleValue}". Use ISO 8601 format like "2026-02-01T15:30:00.000Z".`;
+  }
+  return null;
+}
+
 export function createIpcMcp(ctx: IpcMcpContext) {
   const { chatJid, groupFolder, isMain } = ctx;
+  runId = ctx.runId;
 
   return createSdkMcpServer({
     name: 'nanoclaw',
@@ -43,27 +159,79 @@ export function createIpcMcp(ctx: IpcMcpContext) {
     tools: [
       tool(
         'send_message',
-        'Send a message to the current Telegram chat. Use this to proactively share information, progress updates, or results.',
+        'Send a message to the current Telegram chat. Use this to proactively share information, progress updates, or results. During the chat\'s quiet hours, messages are held and sent as a digest when they end, unless marked urgent.',
         {
-          text: z.string().describe('The message text to send')
+          text: z.string().describe('The message text to send'),
+          urgent: z.boolean().optional().describe('Deliver immediately even during quiet hours. Only for things that cannot wait until morning.')
         },
         async (args) => {
-          const data = {
+          return submitIpcRequest({
             type: 'message',
             chatJid,
             text: args.text,
             groupFolder,
-            timestamp: new Date().toISOString()
-          };
+            urgent: args.urgent
+          }, 'Message queued for delivery');
+        }
+      ),
+
+      tool(
+        'set_quiet_hours',
+        `Set or turn off do-not-disturb hours for the current chat. During quiet hours, scheduled task results and non-urgent send_message messages are held and delivered together as one digest when the window ends. Replies to the user's own messages are not affected.`,
+        {
+          start: z.string().optional().describe('Start of the quiet window, 24-hour HH:MM (e.g. "22:00")'),
+          end: z.string().optional().describe('End of the quiet window, 24-hour HH:MM (e.g. "07:00"); may be earlier than start to span midnight'),
+          timezone: z.string().optional().describe('IANA timezone for start and end (default: local timezone)'),
+          off: z.boolean().optional().describe('Turn quiet hours off for this chat')
+        },
+        async (args) => {
+          if (!args.off && (!args.start || !args.end)) {
+            return {
+              content: [{ type: 'text', text: 'Give both start and end (e.g. "22:00" and "07:00"), or off: true.' }],
+              isError: true
+            };
+          }
+
+          return submitIpcRequest({
+            type: 'set_quiet_hours',
+            chatJid,
+            quiet_hours: args.off ? null : { start: args.start!, end: args.end!, timezone: args.timezone }
+          }, 'Quiet hours change requested');
+        }
+      ),
 
-          const filename = writeIpcFile(MESSAGES_DIR, data);
+      tool(
+        'send_file',
+        `Send a file from the group workspace to the current Telegram chat, such as a generated chart, CSV or screenshot.
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Message queued for delivery (${filename})`
-            }]
-          };
+Images (jpg, png, gif, webp) under 10MB are sent as photos; other files are sent as documents (max 50MB). The file must be inside /workspace/group.`,
+        {
+          path: z.string().describe('Path to the file, absolute under /workspace/group or relative to it (e.g., "charts/sales.png")'),
+          caption: z.string().optional().describe('Optional caption shown with the file')
+        },
+        async (args) => {
+          const resolved = path.resolve(GROUP_DIR, args.path);
+          if (!resolved.startsWith(GROUP_DIR + path.sep)) {
+            return {
+              content: [{ type: 'text', text: `Refusing to send "${args.path}": only files inside ${GROUP_DIR} can be sent.` }],
+              isError: true
+            };
+          }
+          if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+            return {
+              content: [{ type: 'text', text: `File not found: ${resolved}` }],
+              isError: true
+            };
+          }
+
+          const filePath = path.relative(GROUP_DIR, resolved);
+          return submitIpcRequest({
+            type: 'file',
+            chatJid,
+            filePath,
+            caption: args.caption,
+            groupFolder
+          }, `File ${filePath} queued for delivery`);
         }
       ),
 
@@ -81,69 +249,91 @@ If unsure which mode to use, ask the user. Examples:
 - "Follow up on my request" → group (needs to know what was requested)
 - "Generate a daily report" → isolated (just needs instructions in prompt)
 
-SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
+SCHEDULE: either "schedule_text" (a plain-English phrase the host parses) or "schedule_type" + "schedule_value". Phrases the host understands include "every weekday at 9", "every mon, wed and fri at 18:30", "every 2 hours", "every other day", "weekly", "in 20 minutes", "tomorrow at 8am", "tonight", "next friday at 17:00", "first monday of the month", "last day of the month at 20:00" and "on the 15th of every month". Unless the user gave an exact schedule, call preview_schedule first and confirm the upcoming run times with them.
+
+SCHEDULE VALUE FORMAT (times are in the task's timezone: the "timezone" argument, or the local timezone if omitted):
 • cron: Standard cron expression (e.g., "*/5 * * * *" for every 5 minutes, "0 9 * * *" for daily at 9am LOCAL time)
 • interval: Milliseconds between runs (e.g., "300000" for 5 minutes, "3600000" for 1 hour)
-• once: Local time WITHOUT "Z" suffix (e.g., "2026-02-01T15:30:00"). Do NOT use UTC/Z suffix.`,
+• once: Local time WITHOUT "Z" suffix (e.g., "2026-02-01T15:30:00"). Do NOT use UTC/Z suffix.
+• after_task: Upstream task ID(s), comma-separated (e.g., "task-123" or "task-123,task-456"). Runs once all of them have finished since this task last ran, with outcomes matching after_condition. Their latest results are prepended to the prompt.`,
         {
           prompt: z.string().describe('What the agent should do when the task runs. For isolated mode, include all necessary context here.'),
-          schedule_type: z.enum(['cron', 'interval', 'once']).describe('cron=recurring at specific times, interval=recurring every N ms, once=run once at specific time'),
-          schedule_value: z.string().describe('cron: "*/5 * * * *" | interval: milliseconds like "300000" | once: local timestamp like "2026-02-01T15:30:00" (no Z suffix!)'),
+          schedule_text: z.string().optional().describe('Plain-English schedule like "every weekday at 9" or "in 20 minutes" (instead of schedule_type + schedule_value)'),
+          schedule_type: z.enum(['cron', 'interval', 'once', 'after_task']).optional().describe('cron=recurring at specific times, interval=recurring every N ms, once=run once at specific time, after_task=run when other tasks finish'),
+          schedule_value: z.string().optional().describe('cron: "*/5 * * * *" | interval: milliseconds like "300000" | once: local timestamp like "2026-02-01T15:30:00" (no Z suffix!) | after_task: task IDs like "task-123,task-456"'),
           context_mode: z.enum(['group', 'isolated']).default('group').describe('group=runs with chat history and memory, isolated=fresh session (include context in prompt)'),
-          target_group: z.string().optional().describe('Target group folder (main only, defaults to current group)')
+          target_group: z.string().optional().describe('Target group folder (main only, defaults to current group)'),
+          max_attempts: z.number().int().min(1).max(10).optional().describe('Attempts per run before giving up and notifying the chat (default 3, 1 = no retries)'),
+          retry_backoff_ms: z.number().int().min(1000).optional().describe('Delay before the first retry in ms, doubled for each further attempt (default 60000)'),
+          misfire_policy: z.enum(['run_once', 'skip', 'run_all']).optional().describe('Runs missed while the host was down: run_once=run late once (default), skip=wait for the next slot, run_all=replay each missed slot (up to 5)'),
+          misfire_grace_ms: z.number().int().min(0).optional().describe('How late in ms a run may start and still count as on time (default 600000 = 10 min)'),
+          after_condition: z.enum(['success', 'failure', 'always']).optional().describe('after_task only: run when upstream tasks succeed (default), fail, or either'),
+          notify_mode: z.enum(['always', 'on_change', 'on_error', 'never']).optional().describe('Who delivers the result: always=scheduler sends every result to the chat, on_change=only when it differs from the last run (good for monitoring), on_error=only failures are reported (default; the task uses send_message itself), never=fully silent'),
+          timezone: z.string().optional().describe('IANA timezone for cron and once values, e.g. "America/New_York" (default: local timezone)'),
+          ends_at: z.string().optional().describe('Stop scheduling runs after this time, same format as a once value (e.g. "2026-03-01T00:00:00")'),
+          max_runs: z.number().int().positive().optional().describe('Stop after this many runs')
         },
         async (args) => {
-          // Validate schedule_value before writing IPC
-          if (args.schedule_type === 'cron') {
-            try {
-              CronExpressionParser.parse(args.schedule_value);
-            } catch (err) {
-              return {
-                content: [{ type: 'text', text: `Invalid cron: "${args.schedule_value}". Use format like "0 9 * * *" (daily 9am) or "*/5 * * * *" (every 5 min).` }],
-                isError: true
-              };
-            }
-          } else if (args.schedule_type === 'interval') {
-            const ms = parseInt(args.schedule_value, 10);
-            if (isNaN(ms) || ms <= 0) {
-              return {
-                content: [{ type: 'text', text: `Invalid interval: "${args.schedule_value}". Must be positive milliseconds (e.g., "300000" for 5 min).` }],
-                isError: true
-              };
-            }
-          } else if (args.schedule_type === 'once') {
-            const date = new Date(args.schedule_value);
-            if (isNaN(date.getTime())) {
-              return {
-                content: [{ type: 'text', text: `Invalid timestamp: "${args.schedule_value}". Use ISO 8601 format like "2026-02-01T15:30:00.000Z".` }],
-                isError: true
-              };
+          // Validate schedule_value before writing IPC; phrases are parsed by the host
+          if (args.schedule_type && args.schedule_value) {
+            const scheduleError = validateSchedule(args.schedule_type, args.schedule_value);
+            if (scheduleError) {
+              return { content: [{ type: 'text', text: scheduleError }], isError: true };
             }
           }
 
           // Non-main groups can only schedule for themselves
           const targetGroup = isMain && args.target_group ? args.target_group : groupFolder;
 
-          const data = {
+          return submitIpcRequest({
             type: 'schedule_task',
             prompt: args.prompt,
+            schedule_text: args.schedule_text,
             schedule_type: args.schedule_type,
             schedule_value: args.schedule_value,
             context_mode: args.context_mode || 'group',
             groupFolder: targetGroup,
             chatJid,
             createdBy: groupFolder,
-            timestamp: new Date().toISOString()
-          };
+            max_attempts: args.max_attempts,
+            retry_backoff_ms: args.retry_backoff_ms,
+            misfire_policy: args.misfire_policy,
+            misfire_grace_ms: args.misfire_grace_ms,
+            after_condition: args.after_condition,
+            notify_mode: args.notify_mode,
+            timezone: args.timezone,
+            ends_at: args.ends_at,
+            max_runs: args.max_runs
+          }, `Task submitted: ${args.schedule_text ?? `${args.schedule_type} - ${args.schedule_value}`}`);
+        }
+      ),
 
-          const filename = writeIpcFile(TASKS_DIR, data);
+      tool(
+        'preview_schedule',
+        `Show how a schedule would be read and when it would next fire, without creating a task. Use it to confirm a schedule with the user before calling schedule_task.
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Task scheduled (${filename}): ${args.schedule_type} - ${args.schedule_value}`
-            }]
-          };
+Pass either "schedule_text" (e.g. "every weekday at 9", "first monday of the month at 10", "in 20 minutes") or "schedule_type" + "schedule_value". The answer includes the cron/interval/once equivalent and the next 5 run times.`,
+        {
+          schedule_text: z.string().optional().describe('Plain-English schedule like "every weekday at 9"'),
+          schedule_type: z.enum(['cron', 'interval', 'once', 'after_task']).optional().describe('Explicit schedule type, with schedule_value'),
+          schedule_value: z.string().optional().describe('Explicit schedule value, same format as for schedule_task'),
+          timezone: z.string().optional().describe('IANA timezone to read the schedule in (default: local timezone)')
+        },
+        async (args) => {
+          if (args.schedule_type && args.schedule_value) {
+            const scheduleError = validateSchedule(args.schedule_type, args.schedule_value);
+            if (scheduleError) {
+              return { content: [{ type: 'text', text: scheduleError }], isError: true };
+            }
+          }
+
+          return submitIpcRequest({
+            type: 'preview_schedule',
+            schedule_text: args.schedule_text,
+            schedule_type: args.schedule_type,
+            schedule_value: args.schedule_value,
+            timezone: args.timezone
+          }, 'Preview requested');
         }
       ),
 
@@ -180,9 +370,17 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
               };
             }
 
-            const formatted = tasks.map((t: { id: string; prompt: string; schedule_type: string; schedule_value: string; status: string; next_run: string }) =>
-              `- [${t.id}] ${t.prompt.slice(0, 50)}... (${t.schedule_type}: ${t.schedule_value}) - ${t.status}, next: ${t.next_run || 'N/A'}`
-            ).join('\n');
+            const formatted = tasks.map((t: {
+              id: string; prompt: string; schedule_type: string; schedule_value: string; status: string; next_run: string;
+              last_run?: string | null; timezone?: string; ends_at?: string | null; max_runs?: number | null; run_count?: number;
+            }) => {
+              const limits = [
+                t.timezone && `tz: ${t.timezone}`,
+                t.ends_at && `ends: ${t.ends_at}`,
+                t.max_runs && `runs: ${t.run_count ?? 0}/${t.max_runs}`
+              ].filter(Boolean).join(', ');
+              return `- [${t.id}] ${t.prompt.slice(0, 50)}... (${t.schedule_type}: ${t.schedule_value}${limits ? `; ${limits}` : ''}) - ${t.status}, next: ${t.next_run || 'N/A'}, last run: ${t.last_run || 'never'}`;
+            }).join('\n');
 
             return {
               content: [{
@@ -201,6 +399,75 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
         }
       ),
 
+      // Reads from task_history.json, which the host writes before each container run
+      tool(
+        'get_task_history',
+        'Show recent runs of scheduled tasks: when they ran, how long they took, whether they succeeded, and what they returned or which error they hit. Use this to answer questions like "did my backup task run last night?". From main: all tasks. From other groups: only that group\'s tasks.',
+        {
+          task_id: z.string().optional().describe('Only show this task (defaults to all visible tasks)'),
+          limit: z.number().int().min(1).max(10).default(5).describe('Most recent runs to show per task')
+        },
+        async (args) => {
+          const historyFile = path.join(IPC_DIR, 'task_history.json');
+
+          try {
+            if (!fs.existsSync(historyFile)) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: 'No task history available.'
+                }]
+              };
+            }
+
+            const history = JSON.parse(fs.readFileSync(historyFile, 'utf-8')) as Array<{
+              taskId: string;
+              groupFolder: string;
+              prompt: string;
+              runs: Array<{ run_at: string; duration_ms: number; status: string; result: string | null; error: string | null }>;
+            }>;
+
+            const visible = history
+              .filter(h => isMain || h.groupFolder === groupFolder)
+              .filter(h => !args.task_id || h.taskId === args.task_id);
+
+            if (visible.length === 0) {
+              return {
+                content: [{
+                  type: 'text',
+                  text: args.task_id ? `No history for task ${args.task_id}.` : 'No task history available.'
+                }]
+              };
+            }
+
+            const formatted = visible.map(h => {
+              const header = `[${h.taskId}] ${h.prompt.slice(0, 50)}${h.prompt.length > 50 ? '...' : ''}`;
+              if (h.runs.length === 0) return `${header}\n  (never run)`;
+              const runs = h.runs.slice(0, args.limit).map(run => {
+                const detail = run.status === 'success' ? (run.result || 'no output') : `Error: ${run.error || 'unknown'}`;
+                const oneLine = detail.replace(/\s+/g, ' ');
+                return `  - ${run.run_at} ${run.status} (${(run.duration_ms / 1000).toFixed(1)}s): ${oneLine.length > 200 ? oneLine.slice(0, 197) + '...' : oneLine}`;
+              });
+              return `${header}\n${runs.join('\n')}`;
+            }).join('\n\n');
+
+            return {
+              content: [{
+                type: 'text',
+                text: `Task run history (most recent first):\n${formatted}`
+              }]
+            };
+          } catch (err) {
+            return {
+              content: [{
+                type: 'text',
+                text: `Error reading task history: ${err instanceof Error ? err.message : String(err)}`
+              }]
+            };
+          }
+        }
+      ),
+
       tool(
         'pause_task',
         'Pause a scheduled task. It will not run until resumed.',
@@ -208,22 +475,12 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
           task_id: z.string().describe('The task ID to pause')
         },
         async (args) => {
-          const data = {
+          return submitIpcRequest({
             type: 'pause_task',
             taskId: args.task_id,
             groupFolder,
-            isMain,
-            timestamp: new Date().toISOString()
-          };
-
-          writeIpcFile(TASKS_DIR, data);
-
-          return {
-            content: [{
-              type: 'text',
-              text: `Task ${args.task_id} pause requested.`
-            }]
-          };
+            isMain
+          }, `Task ${args.task_id} pause requested`);
         }
       ),
 
@@ -234,22 +491,62 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
           task_id: z.string().describe('The task ID to resume')
         },
         async (args) => {
-          const data = {
+          return submitIpcRequest({
             type: 'resume_task',
             taskId: args.task_id,
             groupFolder,
-            isMain,
-            timestamp: new Date().toISOString()
-          };
+            isMain
+          }, `Task ${args.task_id} resume requested`);
+        }
+      ),
 
-          writeIpcFile(TASKS_DIR, data);
+      tool(
+        'update_task',
+        `Change an existing scheduled task in place, keeping its ID and run history. Use this instead of cancelling and re-creating a task, e.g. to move a daily briefing to a different time.
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Task ${args.task_id} resume requested.`
-            }]
-          };
+Only pass the fields that change. Changing the schedule recomputes the next run; schedule_value uses the same format as schedule_task (local time, no "Z" suffix). To change schedule_type, also pass schedule_value. Giving a finished one-time task a new schedule_value makes it run again.`,
+        {
+          task_id: z.string().describe('The task ID to update'),
+          prompt: z.string().optional().describe('New prompt for the task'),
+          schedule_type: z.enum(['cron', 'interval', 'once', 'after_task']).optional().describe('New schedule type (requires schedule_value)'),
+          schedule_value: z.string().optional().describe('New schedule value, interpreted with schedule_type (or the current type if omitted)'),
+          context_mode: z.enum(['group', 'isolated']).optional().describe('New context mode'),
+          after_condition: z.enum(['success', 'failure', 'always']).optional().describe('New trigger condition for after_task tasks'),
+          notify_mode: z.enum(['always', 'on_change', 'on_error', 'never']).optional().describe('New notification mode'),
+          timezone: z.string().optional().describe('New IANA timezone (recomputes the next run of cron and once tasks)'),
+          ends_at: z.string().nullable().optional().describe('New end time, or null to remove it'),
+          max_runs: z.number().int().positive().nullable().optional().describe('New run limit, or null to remove it')
+        },
+        async (args) => {
+          if (args.schedule_type && !args.schedule_value) {
+            return {
+              content: [{ type: 'text', text: 'Pass schedule_value together with schedule_type.' }],
+              isError: true
+            };
+          }
+          // Without a new type the host checks the value against the task's current type
+          if (args.schedule_type && args.schedule_value) {
+            const scheduleError = validateSchedule(args.schedule_type, args.schedule_value);
+            if (scheduleError) {
+              return { content: [{ type: 'text', text: scheduleError }], isError: true };
+            }
+          }
+
+          return submitIpcRequest({
+            type: 'update_task',
+            taskId: args.task_id,
+            prompt: args.prompt,
+            schedule_type: args.schedule_type,
+            schedule_value: args.schedule_value,
+            context_mode: args.context_mode,
+            after_condition: args.after_condition,
+            notify_mode: args.notify_mode,
+            timezone: args.timezone,
+            ends_at: args.ends_at,
+            max_runs: args.max_runs,
+            groupFolder,
+            isMain
+          }, `Update of task ${args.task_id} requested`);
         }
       ),
 
@@ -260,22 +557,12 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
           task_id: z.string().describe('The task ID to cancel')
         },
         async (args) => {
-          const data = {
+          return submitIpcRequest({
             type: 'cancel_task',
             taskId: args.task_id,
             groupFolder,
-            isMain,
-            timestamp: new Date().toISOString()
-          };
-
-          writeIpcFile(TASKS_DIR, data);
-
-          return {
-            content: [{
-              type: 'text',
-              text: `Task ${args.task_id} cancellation requested.`
-            }]
-          };
+            isMain
+          }, `Task ${args.task_id} cancellation requested`);
         }
       ),
 
@@ -298,31 +585,83 @@ Use available_groups.json to find the JID for a group. The folder name should be
             };
           }
 
-          const data = {
+          return submitIpcRequest({
             type: 'register_group',
             jid: args.jid,
             name: args.name,
             folder: args.folder,
-            trigger: args.trigger,
-            timestamp: new Date().toISOString()
-          };
+            trigger: args.trigger
+          }, `Registration of group "${args.name}" requested`);
+        }
+      ),
+
+      tool(
+        'list_failed_deliveries',
+        'List outbound messages that could not be delivered after repeated retries (dead-lettered), with their errors. Main group only.',
+        {},
+        async () => {
+          if (!isMain) {
+            return {
+              content: [{ type: 'text', text: 'Only the main group can manage failed deliveries.' }],
+              isError: true
+            };
+          }
 
-          writeIpcFile(TASKS_DIR, data);
+          return submitIpcRequest({ type: 'list_failed_deliveries' }, 'Failed delivery list requested');
+        }
+      ),
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Group "${args.name}" registered. It will start receiving messages immediately.`
-            }]
-          };
+      tool(
+        'resend_failed_deliveries',
+        'Queue dead-lettered outbound messages for delivery again, e.g. after a Telegram outage or once the bot is back in a chat. Main group only.',
+        {
+          ids: z.array(z.number()).optional().describe('Message IDs from list_failed_deliveries (default: all of them)')
+        },
+        async (args) => {
+          if (!isMain) {
+            return {
+              content: [{ type: 'text', text: 'Only the main group can manage failed deliveries.' }],
+              isError: true
+            };
+          }
+
+          return submitIpcRequest({
+            type: 'resend_failed_deliveries',
+            ids: args.ids
+          }, 'Resend of failed deliveries requested');
+        }
+      ),
+
+      tool(
+        'cancel_run',
+        'Stop the agent run in progress for another group, e.g. one that is stuck or taking too long. The run ends as cancelled. If nothing is running there, the reply lists the runs that are. Main group only.',
+        {
+          group_folder: z.string().describe('Folder of the group whose run to cancel (e.g., "family-chat")')
+        },
+        async (args) => {
+          if (!isMain) {
+            return {
+              content: [{ type: 'text', text: 'Only the main group can cancel runs.' }],
+              isError: true
+            };
+          }
+
+          return submitIpcRequest({
+            type: 'cancel_run',
+            groupFolder: args.group_folder
+          }, `Cancellation of the run in "${args.group_folder}" requested`);
         }
       ),
 
       tool(
         'telegram_approve',
-        'Approve a Telegram user who requested access. Main group only.',
+        'Approve a Telegram user who requested access, or change a paired user\'s role, expiry or limits (approving again replaces all three). Main group only. Roles: admin (main folder in private chat, can manage users and groups; owner only), member (own private folder, can schedule tasks), guest (read-only files, no scheduling). Default: member.',
         {
-          user_id: z.number().describe('The Telegram user ID to approve')
+          user_id: z.number().describe('The Telegram user ID to approve'),
+          role: z.enum(['owner', 'admin', 'member', 'guest']).optional().describe('Role to give the user (default: member)'),
+          expires_in_days: z.number().positive().optional().describe('Access ends after this many days (default: never)'),
+          daily_runs: z.number().int().min(0).optional().describe('Agent runs the user may start per day, 0 = unlimited (default: the host\'s limit)'),
+          daily_runtime_minutes: z.number().int().min(0).optional().describe('Minutes of agent time per day, 0 = unlimited (default: the host\'s limit)')
         },
         async (args) => {
           if (!isMain) {
@@ -332,20 +671,14 @@ Use available_groups.json to find the JID for a group. The folder name should be
             };
           }
 
-          const data = {
+          return submitIpcRequest({
             type: 'telegram_approve',
             userId: args.user_id,
-            timestamp: new Date().toISOString()
-          };
-
-          writeIpcFile(TASKS_DIR, data);
-
-          return {
-            content: [{
-              type: 'text',
-              text: `Telegram user ${args.user_id} approved. They will be notified.`
-            }]
-          };
+            role: args.role,
+            expires_in_days: args.expires_in_days,
+            daily_runs: args.daily_runs,
+            daily_runtime_minutes: args.daily_runtime_minutes
+          }, `Approval of Telegram user ${args.user_id} requested`);
         }
       ),
 
@@ -363,20 +696,10 @@ Use available_groups.json to find the JID for a group. The folder name should be
             };
           }
 
-          const data = {
+          return submitIpcRequest({
             type: 'telegram_deny',
-            userId: args.user_id,
-            timestamp: new Date().toISOString()
-          };
-
-          writeIpcFile(TASKS_DIR, data);
-
-          return {
-            content: [{
-              type: 'text',
-              text: `Telegram user ${args.user_id} denied. They will be notified.`
-            }]
-          };
+            userId: args.user_id
+          }, `Denial of Telegram user ${args.user_id} requested`);
         }
       ),
 
@@ -392,48 +715,44 @@ Use available_groups.json to find the JID for a group. The folder name should be
             };
           }
 
-          const pendingFile = path.join(IPC_DIR, 'telegram_pending.json');
-
-          try {
-            if (!fs.existsSync(pendingFile)) {
-              return {
-                content: [{
-                  type: 'text',
-                  text: 'No pending Telegram access requests.'
-                }]
-              };
-            }
-
-            const pending = JSON.parse(fs.readFileSync(pendingFile, 'utf-8'));
-            const entries = Object.values(pending) as Array<{userId: number; username?: string; firstName?: string; requestedAt: string; firstMessage?: string}>;
-
-            if (entries.length === 0) {
-              return {
-                content: [{
-                  type: 'text',
-                  text: 'No pending Telegram access requests.'
-                }]
-              };
-            }
-
-            const formatted = entries.map(u =>
-              `- ID: ${u.userId} | @${u.username || 'N/A'} | ${u.firstName || 'Unknown'} | Requested: ${u.requestedAt}`
-            ).join('\n');
+          return submitIpcRequest({ type: 'telegram_list_pending' }, 'Pending approval list requested');
+        }
+      ),
 
+      tool(
+        'telegram_unpair',
+        'Revoke a paired Telegram user\'s access. They have to request access again to use the bot. Main group only.',
+        {
+          user_id: z.number().describe('The Telegram user ID to unpair')
+        },
+        async (args) => {
+          if (!isMain) {
             return {
-              content: [{
-                type: 'text',
-                text: `Pending Telegram access requests:\n${formatted}\n\nUse telegram_approve or telegram_deny with the user ID.`
-              }]
+              content: [{ type: 'text', text: 'Only the main group can unpair Telegram users.' }],
+              isError: true
             };
-          } catch (err) {
+          }
+
+          return submitIpcRequest({
+            type: 'telegram_unpair',
+            userId: args.user_id
+          }, `Unpairing of Telegram user ${args.user_id} requested`);
+        }
+      ),
+
+      tool(
+        'telegram_list_paired',
+        'List paired Telegram users with their role, expiry, limits and usage today. Main group only.',
+        {},
+        async () => {
+          if (!isMain) {
             return {
-              content: [{
-                type: 'text',
-                text: `Error reading pending approvals: ${err instanceof Error ? err.message : String(err)}`
-              }]
+              content: [{ type: 'text', text: 'Only the main group can list paired users.' }],
+              isError: true
             };
           }
+
+          return submitIpcRequest({ type: 'telegram_list_paired' }, 'Paired user list requested');
         }
       ),
 
@@ -12,12 +12,35 @@ TAG="${1:-latest}"
 echo "Building NanoClaw agent container image..."
 echo "Image: ${IMAGE_NAME}:${TAG}"
 
-# Build with Apple Container
-container build -t "${IMAGE_NAME}:${TAG}" .
+# Pick the container CLI: CONTAINER_RUNTIME (apple|docker|podman) or the first one installed
+case "${CONTAINER_RUNTIME:-auto}" in
+  apple) RUNTIME_CMD="container" ;;
+  docker) RUNTIME_CMD="docker" ;;
+  podman) RUNTIME_CMD="podman" ;;
+  *)
+    if [ "$(uname)" = "Darwin" ] && command -v container >/dev/null 2>&1; then
+      RUNTIME_CMD="container"
+    elif command -v docker >/dev/null 2>&1; then
+      RUNTIME_CMD="docker"
+    elif command -v podman >/dev/null 2>&1; then
+      RUNTIME_CMD="podman"
+    else
+      echo "No container runtime found (install Apple Container, Docker or Podman)" >&2
+      exit 1
+    fi
+    ;;
+esac
+
+echo "Runtime: ${RUNTIME_CMD}"
+
+# The IPC schema lives in the host source; the agent runner builds against a copy
+cp ../src/ipc-schema.ts agent-runner/src/ipc-schema.ts
+
+"${RUNTIME_CMD}" build -t "${IMAGE_NAME}:${TAG}" .
 
 echo ""
 echo "Build complete!"
 echo "Image: ${IMAGE_NAME}:${TAG}"
 echo ""
 echo "Test with:"
-echo "  echo '{\"prompt\":\"What is 2+2?\",\"groupFolder\":\"test\",\"chatJid\":\"test@g.us\",\"isMain\":false}' | container run -i ${IMAGE_NAME}:${TAG}"
+echo "  echo '{\"prompt\":\"What is 2+2?\",\"groupFolder\":\"test\",\"chatJid\":\"test@g.us\",\"isMain\":false}' | ${RUNTIME_CMD} run -i ${IMAGE_NAME}:${TAG}"
@@ -0,0 +1,121 @@
+/**
+ * Channel registry for NanoClaw
+ * Each messaging platform is an adapter that owns a JID prefix (e.g. "tg:")
+ * Outbound routing (IPC, scheduler) dispatches through here instead of checking prefixes inline
+ */
+
+import pino from 'pino';
+import { RegisteredGroup } from './types.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  transport: { target: 'pino-pretty', options: { colorize: true } }
+});
+
+export interface ChannelCapabilities {
+  // Longest single message the platform accepts (longer text is chunked by the adapter)
+  maxMessageLength: number;
+  // Can render Markdown-style formatting
+  markdown: boolean;
+  // Can deliver files and images
+  files: boolean;
+  // Can edit a message after it was sent
+  editMessages: boolean;
+  // Can show a typing indicator
+  typing: boolean;
+}
+
+/**
+ * Outcome of sending text. On failure, retryAfterMs carries the platform's rate-limit hint and
+ * permanent marks errors that retrying won't fix (e.g. the bot was removed from the chat).
+ * sentParts counts the chunks of a long message that did go out, so a retry can skip them.
+ */
+export type SendResult =
+  | { ok: true }
+  | { ok: false; error: string; retryAfterMs?: number; permanent?: boolean; sentParts?: number };
+
+/**
+ * Host state handed to a channel when it starts.
+ * The channel's inbound handler uses it to run agents for incoming messages.
+ */
+export interface ChannelHost {
+  getRegisteredGroups: () => Record<string, RegisteredGroup>;
+  getSessions: () => Record<string, string>;
+  setSessions: (sessions: Record<string, string>) => void;
+}
+
+export interface Channel {
+  name: string;
+  jidPrefix: string;
+  capabilities: ChannelCapabilities;
+  // Connect and start delivering inbound messages to the host
+  start(host: ChannelHost): Promise<void>;
+  // Send text to a JID owned by this channel, skipping chunks an earlier attempt delivered
+  send(jid: string, text: string, skipParts?: number): Promise<SendResult>;
+  // Send a host file to a JID (only when capabilities.files is set)
+  sendFile?(jid: string, filePath: string, caption?: string): Promise<boolean>;
+  // Group folder a chat is mapped to, if the channel has registered it
+  folderForJid(jid: string): string | null;
+  stop(): void;
+}
+
+const channels: Channel[] = [];
+
+export function registerChannel(channel: Channel): void {
+  const clash = channels.find(c => c.jidPrefix === channel.jidPrefix);
+  if (clash) {
+    throw new Error(`JID prefix "${channel.jidPrefix}" already registered by channel "${clash.name}"`);
+  }
+  channels.push(channel);
+  logger.debug({ channel: channel.name, jidPrefix: channel.jidPrefix }, 'Channel registered');
+}
+
+export function getChannels(): Channel[] {
+  return [...channels];
+}
+
+export function findChannel(jid: string): Channel | undefined {
+  return channels.find(c => jid.startsWith(c.jidPrefix));
+}
+
+/**
+ * Route an outbound message to the channel that owns the JID.
+ */
+export async function sendToChannel(jid: string, text: string, skipParts = 0): Promise<SendResult> {
+  const channel = findChannel(jid);
+  if (!channel) {
+    // Not permanent: the channel may just not be registered yet, e.g. while the host starts
+    logger.warn({ jid }, 'No channel registered for JID');
+    return { ok: false, error: `No channel handles ${jid}` };
+  }
+  return channel.send(jid, text, skipParts);
+}
+
+/**
+ * Route a file to the channel that owns the JID, if it supports files.
+ */
+export async function sendFileToChannel(jid: string, filePath: string, caption?: string): Promise<boolean> {
+  const channel = findChannel(jid);
+  if (!channel) {
+    logger.warn({ jid }, 'No channel registered for JID');
+    return false;
+  }
+  if (!channel.capabilities.files || !channel.sendFile) {
+    logger.warn({ jid, channel: channel.name }, 'Channel does not support files');
+    return false;
+  }
+  return channel.sendFile(jid, filePath, caption);
+}
+
+export async function startChannels(host: ChannelHost): Promise<void> {
+  for (const channel of channels) {
+    await channel.start(host);
+    logger.info({ channel: channel.name }, 'Channel started');
+  }
+}
+
+export function stopChannels(): void {
+  for (const channel of channels) {
+    channel.stop();
+  }
+}
@@ -3,6 +3,20 @@ import path from 'path';
 export const ASSISTANT_NAME = process.env.ASSISTANT_NAME || 'Andy';
 export const POLL_INTERVAL = 2000;
 export const SCHEDULER_POLL_INTERVAL = 60000;
+// Default retry policy for scheduled tasks (overridable per task)
+export const TASK_MAX_ATTEMPTS = 3;
+export const TASK_RETRY_BACKOFF = 60000;  // First retry delay, doubled on each further attempt
+export const TASK_RETRY_MAX_DELAY = 3600000;
+// Missed runs (host down or asleep): how late a run may be and still count as on time,
+// and how many missed slots a run_all task replays at most
+export const TASK_MISFIRE_GRACE = 600000;
+export const TASK_MISFIRE_MAX_CATCHUP = 5;
+// Outbound message delivery: how often the outbox is checked for retries and for quiet hours that ended,
+// failed attempts before a message is dead-lettered, and the retry backoff (doubled on each attempt)
+export const OUTBOX_POLL_INTERVAL = 5000;
+export const OUTBOX_MAX_ATTEMPTS = 10;
+export const OUTBOX_RETRY_BACKOFF = 5000;
+export const OUTBOX_RETRY_MAX_DELAY = 3600000;
 
 // Absolute paths needed for container mounts
 const PROJECT_ROOT = process.cwd();
@@ -16,9 +30,14 @@ export const DATA_DIR = path.resolve(PROJECT_ROOT, 'data');
 export const MAIN_GROUP_FOLDER = 'main';
 
 export const CONTAINER_IMAGE = process.env.CONTAINER_IMAGE || 'nanoclaw-agent:latest';
+// Container runtime: 'auto' (detect at startup), 'apple', 'docker' or 'podman'
+export const CONTAINER_RUNTIME = process.env.CONTAINER_RUNTIME || 'auto';
 export const CONTAINER_TIMEOUT = parseInt(process.env.CONTAINER_TIMEOUT || '1800000', 10); // 30 min for multi-coder workflows
 export const CONTAINER_MAX_OUTPUT_SIZE = parseInt(process.env.CONTAINER_MAX_OUTPUT_SIZE || '10485760', 10); // 10MB default
-export const IPC_POLL_INTERVAL = 1000;
+export const IPC_POLL_INTERVAL = 1000;  // Used when fs.watch is unavailable
+export const IPC_FALLBACK_POLL_INTERVAL = 5000;  // Safety sweep alongside fs.watch
+// Containers allowed to run at once across all groups (runs within a group are always serialized)
+export const MAX_CONCURRENT_CONTAINERS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_CONTAINERS || '3', 10) || 3);
 
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -37,4 +56,9 @@ export const TELEGRAM_CONFIG = {
   privateChatsEnabled: true,
   groupsEnabled: true,
   unifiedMainChannel: true,  // Private chats share context with WhatsApp main
+  mediaEnabled: true,  // Download photos, documents and voice notes into the group's inbox/
+  maxMediaSize: 20 * 1024 * 1024,  // Bot API getFile limit (20MB)
+  // Per-user daily limits for everyone but the owner (0 = unlimited); paired users can override them
+  dailyRunLimit: parseInt(process.env.TELEGRAM_DAILY_RUN_LIMIT || '0', 10) || 0,
+  dailyRuntimeMinutes: parseInt(process.env.TELEGRAM_DAILY_RUNTIME_MINUTES || '0', 10) || 0,
 };
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ContainerEvent, createStdoutSplitter } from './container-runner.js';
+
+const event = (payload: ContainerEvent) =>
+  `---NANOCLAW_EVENT_START---\n${JSON.stringify(payload)}\n---NANOCLAW_EVENT_END---\n`;
+const output = '---NANOCLAW_OUTPUT_START---\n{"status":"success","result":"done"}\n---NANOCLAW_OUTPUT_END---';
+
+describe('createStdoutSplitter', () => {
+  it('passes events on and keeps them out of the buffered output', () => {
+    const onEvent = vi.fn();
+    const split = createStdoutSplitter(onEvent);
+
+    const text = split.write(`log line\n${event({ type: 'tool_use', tool: 'Bash' })}${output}\n`);
+    expect(text).toBe(`log line\n${output}\n`);
+    expect(onEvent).toHaveBeenCalledWith({ type: 'tool_use', tool: 'Bash' });
+  });
+
+  it('reassembles frames split across chunks', () => {
+    const onEvent = vi.fn();
+    const split = createStdoutSplitter(onEvent);
+    const stream = event({ type: 'text', text: 'thinking' }) + output;
+
+    let text = '';
+    for (let i = 0; i < stream.length; i += 7) text += split.write(stream.slice(i, i + 7));
+    text += split.flush();
+
+    expect(onEvent).toHaveBeenCalledWith({ type: 'text', text: 'thinking' });
+    expect(text).toBe(output);
+  });
+
+  it('drops events even when nobody listens, and skips malformed ones', () => {
+    const split = createStdoutSplitter();
+    const text = split.write(`${event({ type: 'text', text: 'x'.repeat(1000) })}---NANOCLAW_EVENT_START---\n{oops\n---NANOCLAW_EVENT_END---\n`);
+    expect(text).toBe('');
+  });
+
+  it('drops an unterminated frame at the end of the stream', () => {
+    const split = createStdoutSplitter();
+    expect(split.write('---NANOCLAW_EVENT_START---\n{"type":')).toBe('');
+    expect(split.flush()).toBe('');
+  });
+});
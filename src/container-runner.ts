@@ -1,6 +1,6 @@
 /**
  * Container Runner for NanoClaw
- * Spawns agent execution in Apple Container and handles IPC
+ * Spawns agent execution in the configured container runtime and handles IPC
  */
 
 import { spawn } from 'child_process';
@@ -15,8 +15,10 @@ import {
   GROUPS_DIR,
   DATA_DIR
 } from './config.js';
-import { RegisteredGroup } from './types.js';
+import { RegisteredGroup, TaskRunLog, TelegramRole } from './types.js';
 import { validateAdditionalMounts } from './mount-security.js';
+import { getContainerRuntime, VolumeMount } from './container-runtime.js';
+import { registerRun, releaseRun } from './roles.js';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
@@ -26,6 +28,8 @@ const logger = pino({
 // Sentinel markers for robust output parsing (must match agent-runner)
 const OUTPUT_START_MARKER = '---NANOCLAW_OUTPUT_START---';
 const OUTPUT_END_MARKER = '---NANOCLAW_OUTPUT_END---';
+const EVENT_START_MARKER = '---NANOCLAW_EVENT_START---';
+const EVENT_END_MARKER = '---NANOCLAW_EVENT_END---';
 
 function getHomeDir(): string {
   const home = process.env.HOME || os.homedir();
@@ -42,22 +46,70 @@ export interface ContainerInput {
   chatJid: string;
   isMain: boolean;
   isScheduledTask?: boolean;
+  // Role of the Telegram user(s) the run is for; guests get read-only workspace mounts
+  role?: TelegramRole;
 }
 
 export interface ContainerOutput {
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'cancelled';  // cancelled: stopped with cancelRun
   result: string | null;
   newSessionId?: string;
   error?: string;
 }
 
-interface VolumeMount {
-  hostPath: string;
-  containerPath: string;
-  readonly?: boolean;
+// Intermediate progress streamed by the agent runner (must match agent-runner)
+export type ContainerEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; tool: string; summary?: string };
+
+/**
+ * Incremental splitter for container stdout. Event frames go to onEvent and are dropped
+ * from the returned text, so streamed progress doesn't use up CONTAINER_MAX_OUTPUT_SIZE.
+ * Frames are line-delimited, so chunks are split on newlines and partial lines kept until
+ * the next chunk, or until flush() at the end of the stream.
+ */
+export function createStdoutSplitter(onEvent?: (event: ContainerEvent) => void): {
+  write: (chunk: string) => string;
+  flush: () => string;
+} {
+  let pending = '';
+  let frame: string[] | null = null;
+
+  return {
+    write(chunk) {
+      pending += chunk;
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+
+      let output = '';
+      for (const line of lines) {
+        if (line === EVENT_START_MARKER) {
+          frame = [];
+        } else if (line === EVENT_END_MARKER && frame) {
+          try {
+            onEvent?.(JSON.parse(frame.join('\n')));
+          } catch (err) {
+            logger.debug({ err }, 'Ignoring malformed container event');
+          }
+          frame = null;
+        } else if (frame) {
+          frame.push(line);
+        } else {
+          output += `${line}\n`;
+        }
+      }
+      return output;
+    },
+
+    flush() {
+      const rest = frame ? '' : pending;
+      pending = '';
+      return rest;
+    }
+  };
 }
 
-function buildVolumeMounts(group: RegisteredGroup, isMain: boolean): VolumeMount[] {
+function buildVolumeMounts(group: RegisteredGroup, isMain: boolean, readOnly = false): VolumeMount[] {
   const mounts: VolumeMount[] = [];
   const homeDir = getHomeDir();
   const projectRoot = process.cwd();
@@ -67,21 +119,23 @@ function buildVolumeMounts(group: RegisteredGroup, isMain: boolean): VolumeMount
     mounts.push({
       hostPath: projectRoot,
       containerPath: '/workspace/project',
-      readonly: false
+      readonly: readOnly
     });
 
     // Main also gets its group folder as the working directory
     mounts.push({
       hostPath: path.join(GROUPS_DIR, group.folder),
       containerPath: '/workspace/group',
-      readonly: false
+      readonly: readOnly,
+      owned: true
     });
   } else {
     // Other groups only get their own folder
     mounts.push({
       hostPath: path.join(GROUPS_DIR, group.folder),
       containerPath: '/workspace/group',
-      readonly: false
+      readonly: readOnly,
+      owned: true
     });
 
     // Global memory directory (read-only for non-main)
@@ -103,7 +157,8 @@ function buildVolumeMounts(group: RegisteredGroup, isMain: boolean): VolumeMount
   mounts.push({
     hostPath: groupSessionsDir,
     containerPath: '/home/node/.claude',
-    readonly: false
+    readonly: false,
+    owned: true
   });
 
   // Per-group IPC namespace: each group gets its own IPC directory
@@ -111,10 +166,15 @@ function buildVolumeMounts(group: RegisteredGroup, isMain: boolean): VolumeMount
   const groupIpcDir = path.join(DATA_DIR, 'ipc', group.folder);
   fs.mkdirSync(path.join(groupIpcDir, 'messages'), { recursive: true });
   fs.mkdirSync(path.join(groupIpcDir, 'tasks'), { recursive: true });
+  // Acknowledgements nobody waited for are stale once a new container starts
+  const responsesDir = path.join(groupIpcDir, 'responses');
+  fs.rmSync(responsesDir, { recursive: true, force: true });
+  fs.mkdirSync(responsesDir, { recursive: true });
   mounts.push({
     hostPath: groupIpcDir,
     containerPath: '/workspace/ipc',
-    readonly: false
+    readonly: false,
+    owned: true
   });
 
   // Environment file directory (workaround for Apple Container -i env var bug)
@@ -138,7 +198,8 @@ function buildVolumeMounts(group: RegisteredGroup, isMain: boolean): VolumeMount
       mounts.push({
         hostPath: envDir,
         containerPath: '/workspace/env-dir',
-        readonly: true
+        readonly: true,
+        owned: true
       });
     }
   }
@@ -150,43 +211,86 @@ function buildVolumeMounts(group: RegisteredGroup, isMain: boolean): VolumeMount
       group.name,
       isMain
     );
-    mounts.push(...validatedMounts);
+    mounts.push(...validatedMounts.map(m => readOnly ? { ...m, readonly: true } : m));
   }
 
   return mounts;
 }
 
-function buildContainerArgs(mounts: VolumeMount[]): string[] {
-  const args: string[] = ['run', '-i', '--rm'];
+export interface RunInfo {
+  groupFolder: string;
+  startedAt: number;
+  promptPreview: string;
+  isScheduledTask: boolean;
+}
 
-  // Apple Container: --mount for readonly, -v for read-write
-  for (const mount of mounts) {
-    if (mount.readonly) {
-      args.push('--mount', `type=bind,source=${mount.hostPath},target=${mount.containerPath},readonly`);
-    } else {
-      args.push('-v', `${mount.hostPath}:${mount.containerPath}`);
-    }
-  }
+interface ActiveRun extends RunInfo {
+  cancelledBy?: string;
+  stop: () => void;
+}
 
-  args.push(CONTAINER_IMAGE);
+// Containers running now and the last finished run, per group folder (runs are serialized per folder)
+const activeRuns = new Map<string, ActiveRun>();
+const lastRuns = new Map<string, { durationMs: number; status: ContainerOutput['status']; finishedAt: string }>();
+
+// What a run is about: the prompt without catch-up context or envelope tags
+function previewPrompt(prompt: string): string {
+  const text = prompt
+    .replace(/<conversation_context[^>]*>[\s\S]*?<\/conversation_context>/g, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > 100 ? `${text.slice(0, 100)}...` : text;
+}
+
+function toRunInfo({ groupFolder, startedAt, promptPreview, isScheduledTask }: ActiveRun): RunInfo {
+  return { groupFolder, startedAt, promptPreview, isScheduledTask };
+}
 
-  return args;
+export function getActiveRun(groupFolder: string): RunInfo | undefined {
+  const run = activeRuns.get(groupFolder);
+  return run && toRunInfo(run);
+}
+
+export function listActiveRuns(): RunInfo[] {
+  return [...activeRuns.values()].map(toRunInfo);
+}
+
+export function getLastRun(groupFolder: string): { durationMs: number; status: ContainerOutput['status']; finishedAt: string } | undefined {
+  return lastRuns.get(groupFolder);
+}
+
+/**
+ * Kill the group's running container; the run finishes with status 'cancelled'.
+ * Returns the run that was cancelled, or undefined if nothing is running.
+ */
+export function cancelRun(groupFolder: string, cancelledBy: string): RunInfo | undefined {
+  const run = activeRuns.get(groupFolder);
+  if (!run || run.cancelledBy) return undefined;
+  logger.info({ groupFolder, cancelledBy, promptPreview: run.promptPreview }, 'Cancelling container run');
+  run.cancelledBy = cancelledBy;
+  run.stop();
+  return toRunInfo(run);
 }
 
 export async function runContainerAgent(
   group: RegisteredGroup,
-  input: ContainerInput
+  input: ContainerInput,
+  onEvent?: (event: ContainerEvent) => void
 ): Promise<ContainerOutput> {
   const startTime = Date.now();
 
   const groupDir = path.join(GROUPS_DIR, group.folder);
   fs.mkdirSync(groupDir, { recursive: true });
 
-  const mounts = buildVolumeMounts(group, input.isMain);
-  const containerArgs = buildContainerArgs(mounts);
+  const runtime = getContainerRuntime();
+  const mounts = buildVolumeMounts(group, input.isMain, input.role === 'guest');
+  const containerName = `nanoclaw-${group.folder.replace(/[^a-zA-Z0-9_.-]/g, '-')}-${Date.now()}`;
+  const containerArgs = runtime.buildRunArgs(mounts, CONTAINER_IMAGE, containerName);
 
   logger.debug({
     group: group.name,
+    runtime: runtime.name,
     mounts: mounts.map(m => `${m.hostPath} -> ${m.containerPath}${m.readonly ? ' (ro)' : ''}`),
     containerArgs: containerArgs.join(' ')
   }, 'Container mount configuration');
@@ -200,30 +304,53 @@ export async function runContainerAgent(
   const logsDir = path.join(GROUPS_DIR, group.folder, 'logs');
   fs.mkdirSync(logsDir, { recursive: true });
 
-  return new Promise((resolve) => {
-    const container = spawn('container', containerArgs, {
+  const runId = registerRun(group.folder, input.role);
+  const output = await new Promise<ContainerOutput>((resolve) => {
+    const container = spawn(runtime.command, containerArgs, {
       stdio: ['pipe', 'pipe', 'pipe']
     });
 
+    // Ask the runtime to stop the container, then kill the CLI client in case the stop failed
+    const stopContainerProcess = () => {
+      void runtime.stopContainer(containerName).then(() => container.kill('SIGKILL'));
+    };
+
+    const run: ActiveRun = {
+      groupFolder: group.folder,
+      startedAt: startTime,
+      promptPreview: previewPrompt(input.prompt),
+      isScheduledTask: !!input.isScheduledTask,
+      stop: stopContainerProcess
+    };
+    activeRuns.set(group.folder, run);
+
     let stdout = '';
     let stderr = '';
     let stdoutTruncated = false;
     let stderrTruncated = false;
 
-    container.stdin.write(JSON.stringify(input));
+    // The run ID ties the container's IPC requests to this run's role
+    container.stdin.write(JSON.stringify({ ...input, runId }));
     container.stdin.end();
 
-    container.stdout.on('data', (data) => {
-      if (stdoutTruncated) return;
-      const chunk = data.toString();
+    const splitStdout = createStdoutSplitter(onEvent);
+    const appendStdout = (text: string) => {
+      if (stdoutTruncated || !text) return;
       const remaining = CONTAINER_MAX_OUTPUT_SIZE - stdout.length;
-      if (chunk.length > remaining) {
-        stdout += chunk.slice(0, remaining);
+      if (text.length > remaining) {
+        stdout += text.slice(0, remaining);
         stdoutTruncated = true;
         logger.warn({ group: group.name, size: stdout.length }, 'Container stdout truncated due to size limit');
       } else {
-        stdout += chunk;
+        stdout += text;
       }
+    };
+
+    container.stdout.on('data', (data) => {
+      appendStdout(splitStdout.write(data.toString()));
+    });
+    container.stdout.on('end', () => {
+      appendStdout(splitStdout.flush());
     });
 
     container.stderr.on('data', (data) => {
@@ -244,8 +371,8 @@ export async function runContainerAgent(
     });
 
     const timeout = setTimeout(() => {
-      logger.error({ group: group.name }, 'Container timeout, killing');
-      container.kill('SIGKILL');
+      logger.error({ group: group.name, containerName }, 'Container timeout, killing');
+      stopContainerProcess();
       resolve({
         status: 'error',
         result: null,
@@ -265,6 +392,7 @@ export async function runContainerAgent(
         `=== Container Run Log ===`,
         `Timestamp: ${new Date().toISOString()}`,
         `Group: ${group.name}`,
+        `Runtime: ${runtime.name}`,
         `IsMain: ${input.isMain}`,
         `Duration: ${duration}ms`,
         `Exit Code: ${code}`,
@@ -279,7 +407,7 @@ export async function runContainerAgent(
           JSON.stringify(input, null, 2),
           ``,
           `=== Container Args ===`,
-          containerArgs.join(' '),
+          `${runtime.command} ${containerArgs.join(' ')}`,
           ``,
           `=== Mounts ===`,
           mounts.map(m => `${m.hostPath} -> ${m.containerPath}${m.readonly ? ' (ro)' : ''}`).join('\n'),
@@ -310,9 +438,22 @@ export async function runContainerAgent(
         }
       }
 
+      if (run.cancelledBy) {
+        logLines.push(`=== Cancelled by ${run.cancelledBy} ===`, ``);
+      }
       fs.writeFileSync(logFile, logLines.join('\n'));
       logger.debug({ logFile, verbose: isVerbose }, 'Container log written');
 
+      if (run.cancelledBy) {
+        logger.info({ group: group.name, duration, cancelledBy: run.cancelledBy }, 'Container run cancelled');
+        resolve({
+          status: 'cancelled',
+          result: null,
+          error: `Cancelled by ${run.cancelledBy}`
+        });
+        return;
+      }
+
       if (code !== 0) {
         logger.error({
           group: group.name,
@@ -379,6 +520,22 @@ export async function runContainerAgent(
       });
     });
   });
+
+  activeRuns.delete(group.folder);
+  releaseRun(runId);
+  lastRuns.set(group.folder, { durationMs: Date.now() - startTime, status: output.status, finishedAt: new Date().toISOString() });
+  return output;
+}
+
+/**
+ * Most recent container run log for a group, if any.
+ */
+export function getLatestContainerLog(groupFolder: string): string | null {
+  const logsDir = path.join(GROUPS_DIR, groupFolder, 'logs');
+  if (!fs.existsSync(logsDir)) return null;
+  // Timestamped names sort chronologically
+  const logs = fs.readdirSync(logsDir).filter(f => f.startsWith('container-') && f.endsWith('.log')).sort();
+  return logs.length > 0 ? path.join(logsDir, logs[logs.length - 1]) : null;
 }
 
 export function writeTasksSnapshot(
@@ -392,6 +549,12 @@ export function writeTasksSnapshot(
     schedule_value: string;
     status: string;
     next_run: string | null;
+    last_run: string | null;
+    last_result: string | null;
+    timezone: string;
+    ends_at: string | null;
+    max_runs: number | null;
+    run_count: number;
   }>
 ): void {
   // Write filtered tasks to the group's IPC directory
@@ -407,6 +570,39 @@ export function writeTasksSnapshot(
   fs.writeFileSync(tasksFile, JSON.stringify(filteredTasks, null, 2));
 }
 
+export interface TaskHistoryEntry {
+  taskId: string;
+  groupFolder: string;
+  prompt: string;
+  runs: TaskRunLog[];
+}
+
+/**
+ * Write recent runs per task for the get_task_history tool.
+ * Results are truncated; the full text stays in the database.
+ */
+export function writeTaskHistorySnapshot(
+  groupFolder: string,
+  isMain: boolean,
+  history: TaskHistoryEntry[]
+): void {
+  const groupIpcDir = path.join(DATA_DIR, 'ipc', groupFolder);
+  fs.mkdirSync(groupIpcDir, { recursive: true });
+
+  // Main sees all tasks, others only see their own
+  const filteredHistory = (isMain ? history : history.filter(h => h.groupFolder === groupFolder))
+    .map(h => ({
+      ...h,
+      runs: h.runs.map(run => ({
+        ...run,
+        result: run.result && run.result.length > 500 ? run.result.slice(0, 497) + '...' : run.result
+      }))
+    }));
+
+  const historyFile = path.join(groupIpcDir, 'task_history.json');
+  fs.writeFileSync(historyFile, JSON.stringify(filteredHistory, null, 2));
+}
+
 export interface AvailableGroup {
   jid: string;
   name: string;
@@ -437,31 +633,3 @@ export function writeGroupsSnapshot(
     lastSync: new Date().toISOString()
   }, null, 2));
 }
-
-/**
- * Write Telegram pending approvals snapshot for the container to read.
- * Only main group can see pending approvals.
- */
-export function writeTelegramPendingSnapshot(
-  groupFolder: string,
-  isMain: boolean
-): void {
-  if (!isMain) return;  // Only main needs this
-
-  const groupIpcDir = path.join(DATA_DIR, 'ipc', groupFolder);
-  fs.mkdirSync(groupIpcDir, { recursive: true });
-
-  // Copy pending approvals to IPC directory
-  const sourcePath = path.join(DATA_DIR, 'telegram_pending_approvals.json');
-  const destPath = path.join(groupIpcDir, 'telegram_pending.json');
-
-  try {
-    if (fs.existsSync(sourcePath)) {
-      fs.copyFileSync(sourcePath, destPath);
-    } else {
-      fs.writeFileSync(destPath, '{}');
-    }
-  } catch (err) {
-    // Non-fatal, just log
-  }
-}
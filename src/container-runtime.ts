@@ -0,0 +1,269 @@
+/**
+ * Container Runtime backends for NanoClaw
+ * Abstracts the CLI differences between Apple Container, Docker and Podman
+ */
+
+import { execFile, execSync } from 'child_process';
+import pino from 'pino';
+import { CONTAINER_RUNTIME } from './config.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  transport: { target: 'pino-pretty', options: { colorize: true } }
+});
+
+export type ContainerRuntimeName = 'apple' | 'docker' | 'podman';
+
+export interface VolumeMount {
+  hostPath: string;
+  containerPath: string;
+  readonly?: boolean;
+  // Created and owned by NanoClaw, so the runtime may relabel it (Podman's SELinux :z)
+  owned?: boolean;
+}
+
+export interface ContainerRuntime {
+  name: ContainerRuntimeName;
+  // CLI binary used to run containers
+  command: string;
+  // True if the CLI is installed on this host
+  isAvailable(): boolean;
+  // Health check; starts the runtime if it supports it, throws if unusable
+  ensureRunning(): void;
+  // Arguments for a single mount, in this runtime's syntax
+  mountArgs(mount: VolumeMount): string[];
+  // Full argument list for `<command> run ...`
+  buildRunArgs(mounts: VolumeMount[], image: string, containerName: string): string[];
+  // Best-effort stop of a named container (the CLI client may outlive a kill); resolves once
+  // the stop has finished, failed or timed out
+  stopContainer(containerName: string): Promise<void>;
+}
+
+function commandExists(command: string): boolean {
+  try {
+    execSync(`command -v ${command}`, { stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function printFatalBanner(title: string, lines: string[]): void {
+  const width = 64;
+  const pad = (s: string) => `║  ${s.padEnd(width - 2)}║`;
+  console.error(`\n╔${'═'.repeat(width)}╗`);
+  console.error(pad(`FATAL: ${title}`));
+  console.error(pad(''));
+  for (const line of lines) console.error(pad(line));
+  console.error(`╚${'═'.repeat(width)}╝\n`);
+}
+
+function stopNamedContainer(command: string, containerName: string): Promise<void> {
+  // Async so a slow runtime doesn't block the event loop; never rejects
+  return new Promise((resolve) => {
+    execFile(command, ['stop', containerName], { timeout: 15000 }, (err) => {
+      if (err) {
+        logger.debug({ containerName, err }, 'Container stop failed (may have already exited)');
+      } else {
+        logger.debug({ containerName }, 'Container stopped');
+      }
+      resolve();
+    });
+  });
+}
+
+const appleRuntime: ContainerRuntime = {
+  name: 'apple',
+  command: 'container',
+
+  isAvailable() {
+    return process.platform === 'darwin' && commandExists('container');
+  },
+
+  ensureRunning() {
+    try {
+      execSync('container system status', { stdio: 'pipe' });
+      logger.debug('Apple Container system already running');
+    } catch {
+      logger.info('Starting Apple Container system...');
+      try {
+        execSync('container system start', { stdio: 'pipe', timeout: 30000 });
+        logger.info('Apple Container system started');
+      } catch (err) {
+        logger.error({ err }, 'Failed to start Apple Container system');
+        printFatalBanner('Apple Container system failed to start', [
+          'Agents cannot run without Apple Container. To fix:',
+          '1. Install from: https://github.com/apple/container/releases',
+          '2. Run: container system start',
+          '3. Restart NanoClaw'
+        ]);
+        throw new Error('Apple Container system is required but failed to start');
+      }
+    }
+  },
+
+  mountArgs(mount) {
+    // Apple Container: --mount for readonly (the :ro suffix is ignored), -v for read-write
+    if (mount.readonly) {
+      return ['--mount', `type=bind,source=${mount.hostPath},target=${mount.containerPath},readonly`];
+    }
+    return ['-v', `${mount.hostPath}:${mount.containerPath}`];
+  },
+
+  buildRunArgs(mounts, image, containerName) {
+    const args = ['run', '-i', '--rm', '--name', containerName];
+    for (const mount of mounts) args.push(...this.mountArgs(mount));
+    args.push(image);
+    return args;
+  },
+
+  stopContainer(containerName) {
+    return stopNamedContainer('container', containerName);
+  }
+};
+
+const dockerRuntime: ContainerRuntime = {
+  name: 'docker',
+  command: 'docker',
+
+  isAvailable() {
+    return commandExists('docker');
+  },
+
+  ensureRunning() {
+    try {
+      execSync('docker info', { stdio: 'pipe', timeout: 15000 });
+      logger.debug('Docker daemon reachable');
+    } catch (err) {
+      logger.error({ err }, 'Docker daemon not reachable');
+      printFatalBanner('Docker daemon is not running', [
+        'Agents cannot run without a container runtime. To fix:',
+        '1. Start Docker (systemctl start docker, or Docker Desktop)',
+        '2. Make sure this user can run: docker info',
+        '3. Restart NanoClaw'
+      ]);
+      throw new Error('Docker is required but the daemon is not reachable');
+    }
+  },
+
+  mountArgs(mount) {
+    return ['-v', `${mount.hostPath}:${mount.containerPath}${mount.readonly ? ':ro' : ''}`];
+  },
+
+  buildRunArgs(mounts, image, containerName) {
+    const args = ['run', '-i', '--rm', '--name', containerName];
+    for (const mount of mounts) args.push(...this.mountArgs(mount));
+    args.push(image);
+    return args;
+  },
+
+  stopContainer(containerName) {
+    return stopNamedContainer('docker', containerName);
+  }
+};
+
+const podmanRuntime: ContainerRuntime = {
+  name: 'podman',
+  command: 'podman',
+
+  isAvailable() {
+    return commandExists('podman');
+  },
+
+  ensureRunning() {
+    try {
+      execSync('podman info', { stdio: 'pipe', timeout: 15000 });
+      logger.debug('Podman reachable');
+      return;
+    } catch {
+      // On macOS/Windows podman needs its VM; Linux is daemonless and should not get here
+    }
+
+    if (process.platform !== 'linux') {
+      logger.info('Starting Podman machine...');
+      try {
+        execSync('podman machine start', { stdio: 'pipe', timeout: 60000 });
+        logger.info('Podman machine started');
+        return;
+      } catch (err) {
+        logger.error({ err }, 'Failed to start Podman machine');
+      }
+    }
+
+    printFatalBanner('Podman is not usable', [
+      'Agents cannot run without a container runtime. To fix:',
+      '1. Make sure this user can run: podman info',
+      '2. On macOS: podman machine init && podman machine start',
+      '3. Restart NanoClaw'
+    ]);
+    throw new Error('Podman is required but is not usable');
+  },
+
+  mountArgs(mount) {
+    // Relabel for SELinux hosts, but only NanoClaw's own directories: :z recursively
+    // changes the labels of everything under the host path
+    const options = [mount.readonly ? 'ro' : 'rw', ...(mount.owned ? ['z'] : [])].join(',');
+    return ['-v', `${mount.hostPath}:${mount.containerPath}:${options}`];
+  },
+
+  buildRunArgs(mounts, image, containerName) {
+    // keep-id maps the host user onto the container's node user so group folders stay writable
+    const args = ['run', '-i', '--rm', '--name', containerName, '--userns=keep-id'];
+    for (const mount of mounts) args.push(...this.mountArgs(mount));
+    args.push(image);
+    return args;
+  },
+
+  stopContainer(containerName) {
+    return stopNamedContainer('podman', containerName);
+  }
+};
+
+const RUNTIMES: Record<ContainerRuntimeName, ContainerRuntime> = {
+  apple: appleRuntime,
+  docker: dockerRuntime,
+  podman: podmanRuntime
+};
+
+let activeRuntime: ContainerRuntime | null = null;
+
+/**
+ * Pick the runtime from CONTAINER_RUNTIME, or detect one when set to "auto".
+ * Apple Container is preferred on macOS, then Docker, then Podman.
+ */
+export function detectContainerRuntime(): ContainerRuntime {
+  if (CONTAINER_RUNTIME !== 'auto') {
+    const runtime = RUNTIMES[CONTAINER_RUNTIME as ContainerRuntimeName];
+    if (!runtime) {
+      throw new Error(`Unknown CONTAINER_RUNTIME "${CONTAINER_RUNTIME}" (expected auto, apple, docker or podman)`);
+    }
+    if (!runtime.isAvailable()) {
+      throw new Error(`CONTAINER_RUNTIME is "${CONTAINER_RUNTIME}" but "${runtime.command}" is not installed`);
+    }
+    return runtime;
+  }
+
+  const candidates: ContainerRuntime[] = [appleRuntime, dockerRuntime, podmanRuntime];
+  const runtime = candidates.find(r => r.isAvailable());
+  if (!runtime) {
+    printFatalBanner('No container runtime found', [
+      'NanoClaw runs agents in containers. Install one of:',
+      '- Apple Container (macOS): https://github.com/apple/container',
+      '- Docker: https://docs.docker.com/get-docker/',
+      '- Podman: https://podman.io/docs/installation'
+    ]);
+    throw new Error('No supported container runtime found');
+  }
+  return runtime;
+}
+
+/**
+ * Get the runtime in use, detecting it on first call.
+ */
+export function getContainerRuntime(): ContainerRuntime {
+  if (!activeRuntime) {
+    activeRuntime = detectContainerRuntime();
+    logger.info({ runtime: activeRuntime.name, command: activeRuntime.command }, 'Container runtime selected');
+  }
+  return activeRuntime;
+}
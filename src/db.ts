@@ -1,9 +1,8 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
-import { proto } from '@whiskeysockets/baileys';
-import { NewMessage, ScheduledTask, TaskRunLog } from './types.js';
-import { STORE_DIR } from './config.js';
+import { NewMessage, OutboxMessage, ScheduledTask, TaskRunLog } from './types.js';
+import { STORE_DIR, TASK_MAX_ATTEMPTS, TASK_MISFIRE_GRACE, TASK_RETRY_BACKOFF } from './config.js';
 
 let db: Database.Database;
 
@@ -58,6 +57,15 @@ export function initDatabase(): void {
       FOREIGN KEY (task_id) REFERENCES scheduled_tasks(id)
     );
     CREATE INDEX IF NOT EXISTS idx_task_run_logs ON task_run_logs(task_id, run_at);
+
+    CREATE TABLE IF NOT EXISTS outbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_jid TEXT NOT NULL,
+      text TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      deliver_after TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_outbox_deliver ON outbox(deliver_after);
   `);
 
   // Add sender_name column if it doesn't exist (migration for existing DBs)
@@ -69,6 +77,60 @@ export function initDatabase(): void {
   try {
     db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN context_mode TEXT DEFAULT 'isolated'`);
   } catch { /* column already exists */ }
+
+  // Add retry policy columns if they don't exist (migration for existing DBs)
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN max_attempts INTEGER DEFAULT ${TASK_MAX_ATTEMPTS}`);
+  } catch { /* column already exists */ }
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN retry_backoff_ms INTEGER DEFAULT ${TASK_RETRY_BACKOFF}`);
+  } catch { /* column already exists */ }
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN failure_count INTEGER DEFAULT 0`);
+  } catch { /* column already exists */ }
+
+  // Add misfire policy columns if they don't exist (migration for existing DBs)
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN misfire_policy TEXT DEFAULT 'run_once'`);
+  } catch { /* column already exists */ }
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN misfire_grace_ms INTEGER DEFAULT ${TASK_MISFIRE_GRACE}`);
+  } catch { /* column already exists */ }
+
+  // Add after_task trigger condition column if it doesn't exist (migration for existing DBs)
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN after_condition TEXT DEFAULT 'success'`);
+  } catch { /* column already exists */ }
+
+  // Add notification columns if they don't exist (migration for existing DBs)
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN notify_mode TEXT DEFAULT 'on_error'`);
+  } catch { /* column already exists */ }
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN last_result_hash TEXT`);
+  } catch { /* column already exists */ }
+
+  // Add timezone and end condition columns if they don't exist (migration for existing DBs)
+  for (const column of ['timezone TEXT', 'ends_at TEXT', 'max_runs INTEGER', 'run_count INTEGER DEFAULT 0']) {
+    try {
+      db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN ${column}`);
+    } catch { /* column already exists */ }
+  }
+
+  // Add the creator's role column if it doesn't exist (migration for existing DBs).
+  // Who created earlier tasks is unknown, so those for Telegram chats get member access
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN role TEXT`);
+    db.exec(`UPDATE scheduled_tasks SET role = 'member' WHERE chat_jid LIKE 'tg:%'`);
+  } catch { /* column already exists */ }
+
+  // Add outbox delivery columns if they don't exist (migration for existing DBs).
+  // Earlier rows were all held for quiet hours, hence the default status
+  for (const column of ["status TEXT DEFAULT 'held'", 'attempts INTEGER DEFAULT 0', 'last_error TEXT', 'sent_parts INTEGER DEFAULT 0']) {
+    try {
+      db.exec(`ALTER TABLE outbox ADD COLUMN ${column}`);
+    } catch { /* column already exists */ }
+  }
 }
 
 /**
@@ -142,25 +204,11 @@ export function setLastGroupSync(): void {
 
 /**
  * Store a message with full content.
- * Only call this for registered groups where message history is needed.
+ * Only call this for registered chats where message history is needed.
  */
-export function storeMessage(msg: proto.IWebMessageInfo, chatJid: string, isFromMe: boolean, pushName?: string): void {
-  if (!msg.key) return;
-
-  const content =
-    msg.message?.conversation ||
-    msg.message?.extendedTextMessage?.text ||
-    msg.message?.imageMessage?.caption ||
-    msg.message?.videoMessage?.caption ||
-    '';
-
-  const timestamp = new Date(Number(msg.messageTimestamp) * 1000).toISOString();
-  const sender = msg.key.participant || msg.key.remoteJid || '';
-  const senderName = pushName || sender.split('@')[0];
-  const msgId = msg.key.id || '';
-
+export function storeMessage(msg: NewMessage, isFromMe: boolean): void {
   db.prepare(`INSERT OR REPLACE INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me) VALUES (?, ?, ?, ?, ?, ?, ?)`)
-    .run(msgId, chatJid, sender, senderName, content, timestamp, isFromMe ? 1 : 0);
+    .run(msg.id, msg.chat_jid, msg.sender, msg.sender_name, msg.content, msg.timestamp, isFromMe ? 1 : 0);
 }
 
 export function getNewMessages(jids: string[], lastTimestamp: string, botPrefix: string): { messages: NewMessage[]; newTimestamp: string } {
@@ -185,21 +233,50 @@ export function getNewMessages(jids: string[], lastTimestamp: string, botPrefix:
   return { messages: rows, newTimestamp };
 }
 
-export function getMessagesSince(chatJid: string, sinceTimestamp: string, botPrefix: string): NewMessage[] {
+/**
+ * Messages in a chat after a timestamp, oldest first. With a limit, only the most recent ones.
+ */
+export function getMessagesSince(chatJid: string, sinceTimestamp: string, botPrefix: string, limit = -1): NewMessage[] {
   // Filter out bot's own messages by checking content prefix
   const sql = `
     SELECT id, chat_jid, sender, sender_name, content, timestamp
     FROM messages
     WHERE chat_jid = ? AND timestamp > ? AND content NOT LIKE ?
-    ORDER BY timestamp
+    ORDER BY timestamp DESC
+    LIMIT ?
   `;
-  return db.prepare(sql).all(chatJid, sinceTimestamp, `${botPrefix}:%`) as NewMessage[];
+  const rows = db.prepare(sql).all(chatJid, sinceTimestamp, `${botPrefix}:%`, limit) as NewMessage[];
+  return rows.reverse();
 }
 
-export function createTask(task: Omit<ScheduledTask, 'last_run' | 'last_result'>): void {
+/**
+ * Incoming messages in a chat with a numeric ID above afterId, oldest first. With a limit, only
+ * the most recent ones. For platforms whose message IDs increase within a chat, like Telegram.
+ */
+export function getMessagesAfterId(chatJid: string, afterId: number, limit = -1): NewMessage[] {
+  const sql = `
+    SELECT id, chat_jid, sender, sender_name, content, timestamp
+    FROM messages
+    WHERE chat_jid = ? AND is_from_me = 0 AND CAST(id AS INTEGER) > ?
+    ORDER BY CAST(id AS INTEGER) DESC
+    LIMIT ?
+  `;
+  const rows = db.prepare(sql).all(chatJid, afterId, limit) as NewMessage[];
+  return rows.reverse();
+}
+
+// Optional task settings fall back to the config defaults
+type TaskDefaults =
+  | 'max_attempts' | 'retry_backoff_ms' | 'misfire_policy' | 'misfire_grace_ms' | 'after_condition' | 'notify_mode'
+  | 'timezone' | 'ends_at' | 'max_runs';
+
+export function createTask(
+  task: Omit<ScheduledTask, 'last_run' | 'last_result' | 'last_result_hash' | 'failure_count' | 'run_count' | TaskDefaults>
+    & Partial<Pick<ScheduledTask, TaskDefaults>>
+): void {
   db.prepare(`
-    INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at, max_attempts, retry_backoff_ms, misfire_policy, misfire_grace_ms, after_condition, notify_mode, timezone, ends_at, max_runs, role)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     task.id,
     task.group_folder,
@@ -210,7 +287,17 @@ export function createTask(task: Omit<ScheduledTask, 'last_run' | 'last_result'>
     task.context_mode || 'isolated',
     task.next_run,
     task.status,
-    task.created_at
+    task.created_at,
+    task.max_attempts ?? TASK_MAX_ATTEMPTS,
+    task.retry_backoff_ms ?? TASK_RETRY_BACKOFF,
+    task.misfire_policy ?? 'run_once',
+    task.misfire_grace_ms ?? TASK_MISFIRE_GRACE,
+    task.after_condition ?? 'success',
+    task.notify_mode ?? 'on_error',
+    task.timezone ?? null,
+    task.ends_at ?? null,
+    task.max_runs ?? null,
+    task.role
   );
 }
 
@@ -226,15 +313,24 @@ export function getAllTasks(): ScheduledTask[] {
   return db.prepare('SELECT * FROM scheduled_tasks ORDER BY created_at DESC').all() as ScheduledTask[];
 }
 
-export function updateTask(id: string, updates: Partial<Pick<ScheduledTask, 'prompt' | 'schedule_type' | 'schedule_value' | 'next_run' | 'status'>>): void {
+export function updateTask(id: string, updates: Partial<Pick<ScheduledTask, 'prompt' | 'schedule_type' | 'schedule_value' | 'context_mode' | 'next_run' | 'status' | 'last_result' | 'after_condition' | 'notify_mode' | 'timezone' | 'ends_at' | 'max_runs' | 'failure_count' | 'role'>>): void {
   const fields: string[] = [];
   const values: unknown[] = [];
 
   if (updates.prompt !== undefined) { fields.push('prompt = ?'); values.push(updates.prompt); }
   if (updates.schedule_type !== undefined) { fields.push('schedule_type = ?'); values.push(updates.schedule_type); }
   if (updates.schedule_value !== undefined) { fields.push('schedule_value = ?'); values.push(updates.schedule_value); }
+  if (updates.context_mode !== undefined) { fields.push('context_mode = ?'); values.push(updates.context_mode); }
   if (updates.next_run !== undefined) { fields.push('next_run = ?'); values.push(updates.next_run); }
   if (updates.status !== undefined) { fields.push('status = ?'); values.push(updates.status); }
+  if (updates.last_result !== undefined) { fields.push('last_result = ?'); values.push(updates.last_result); }
+  if (updates.after_condition !== undefined) { fields.push('after_condition = ?'); values.push(updates.after_condition); }
+  if (updates.notify_mode !== undefined) { fields.push('notify_mode = ?'); values.push(updates.notify_mode); }
+  if (updates.timezone !== undefined) { fields.push('timezone = ?'); values.push(updates.timezone); }
+  if (updates.ends_at !== undefined) { fields.push('ends_at = ?'); values.push(updates.ends_at); }
+  if (updates.max_runs !== undefined) { fields.push('max_runs = ?'); values.push(updates.max_runs); }
+  if (updates.failure_count !== undefined) { fields.push('failure_count = ?'); values.push(updates.failure_count); }
+  if (updates.role !== undefined) { fields.push('role = ?'); values.push(updates.role); }
 
   if (fields.length === 0) return;
 
@@ -257,13 +353,32 @@ export function getDueTasks(): ScheduledTask[] {
   `).all(now) as ScheduledTask[];
 }
 
-export function updateTaskAfterRun(id: string, nextRun: string | null, lastResult: string): void {
+export function updateTaskAfterRun(
+  id: string,
+  outcome: {
+    nextRun: string | null;
+    lastResult: string;
+    failureCount: number;
+    status?: ScheduledTask['status'];
+    // Only successful runs replace the stored hash
+    resultHash?: string;
+    // Final outcomes count towards max_runs; retry attempts don't
+    countRun?: boolean;
+  }
+): void {
   const now = new Date().toISOString();
+  // Without an explicit status, a task with no next run has completed
   db.prepare(`
     UPDATE scheduled_tasks
-    SET next_run = ?, last_run = ?, last_result = ?, status = CASE WHEN ? IS NULL THEN 'completed' ELSE status END
+    SET next_run = ?, last_run = ?, last_result = ?, failure_count = ?,
+        status = COALESCE(?, CASE WHEN ? IS NULL THEN 'completed' ELSE status END),
+        last_result_hash = COALESCE(?, last_result_hash),
+        run_count = run_count + ?
     WHERE id = ?
-  `).run(nextRun, now, lastResult, nextRun, id);
+  `).run(
+    outcome.nextRun, now, outcome.lastResult, outcome.failureCount,
+    outcome.status ?? null, outcome.nextRun, outcome.resultHash ?? null, outcome.countRun ? 1 : 0, id
+  );
 }
 
 export function logTaskRun(log: TaskRunLog): void {
@@ -282,3 +397,86 @@ export function getTaskRunLogs(taskId: string, limit = 10): TaskRunLog[] {
     LIMIT ?
   `).all(taskId, limit) as TaskRunLog[];
 }
+
+export function enqueueOutboxMessage(
+  chatJid: string,
+  text: string,
+  status: 'pending' | 'held',
+  deliverAfter: string
+): number {
+  const result = db.prepare(`
+    INSERT INTO outbox (chat_jid, text, created_at, deliver_after, status, attempts)
+    VALUES (?, ?, ?, ?, ?, 0)
+  `).run(chatJid, text, new Date().toISOString(), deliverAfter, status);
+  return Number(result.lastInsertRowid);
+}
+
+export function getOutboxMessage(id: number): OutboxMessage | undefined {
+  return db.prepare('SELECT * FROM outbox WHERE id = ?').get(id) as OutboxMessage | undefined;
+}
+
+/**
+ * Pending messages in delivery order, for one chat or all chats.
+ */
+export function getPendingOutboxMessages(chatJid?: string): OutboxMessage[] {
+  if (chatJid) {
+    return db.prepare(`
+      SELECT * FROM outbox WHERE status = 'pending' AND chat_jid = ? ORDER BY id
+    `).all(chatJid) as OutboxMessage[];
+  }
+  return db.prepare(`SELECT * FROM outbox WHERE status = 'pending' ORDER BY id`).all() as OutboxMessage[];
+}
+
+/**
+ * Held messages whose quiet hours have ended, oldest first.
+ */
+export function getDueHeldMessages(): OutboxMessage[] {
+  return db.prepare(`
+    SELECT * FROM outbox WHERE status = 'held' AND deliver_after <= ? ORDER BY id
+  `).all(new Date().toISOString()) as OutboxMessage[];
+}
+
+export function getDeadOutboxMessages(): OutboxMessage[] {
+  return db.prepare(`SELECT * FROM outbox WHERE status = 'dead' ORDER BY id`).all() as OutboxMessage[];
+}
+
+/**
+ * Swap a chat's held messages for a single pending digest, atomically.
+ */
+export function replaceWithDigest(chatJid: string, heldIds: number[], digest: string): number {
+  const remove = db.prepare(`DELETE FROM outbox WHERE id = ? AND status = 'held'`);
+  return db.transaction(() => {
+    for (const id of heldIds) remove.run(id);
+    return enqueueOutboxMessage(chatJid, digest, 'pending', new Date().toISOString());
+  })();
+}
+
+// Delivered messages are removed; only undelivered ones stay in the outbox
+export function deleteOutboxMessage(id: number): void {
+  db.prepare('DELETE FROM outbox WHERE id = ?').run(id);
+}
+
+export function recordOutboxFailure(
+  id: number,
+  update: { status: 'pending' | 'dead'; attempts: number; lastError: string; deliverAfter: string; sentParts: number }
+): void {
+  db.prepare(`
+    UPDATE outbox SET status = ?, attempts = ?, last_error = ?, deliver_after = ?, sent_parts = ? WHERE id = ?
+  `).run(update.status, update.attempts, update.lastError, update.deliverAfter, update.sentParts, id);
+}
+
+/**
+ * Put dead messages back in the queue with a fresh attempt budget. Returns how many were requeued.
+ */
+export function requeueDeadOutboxMessages(ids?: number[]): number {
+  const now = new Date().toISOString();
+  if (!ids) {
+    return db.prepare(`
+      UPDATE outbox SET status = 'pending', attempts = 0, deliver_after = ? WHERE status = 'dead'
+    `).run(now).changes;
+  }
+  const requeue = db.prepare(`
+    UPDATE outbox SET status = 'pending', attempts = 0, deliver_after = ? WHERE id = ? AND status = 'dead'
+  `);
+  return db.transaction(() => ids.reduce((count, id) => count + requeue.run(now, id).changes, 0))();
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_CONCURRENT_CONTAINERS } from './config.js';
+import { enqueueGroupRun, getQueueStatus, isGroupRunning } from './group-queue.js';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('enqueueGroupRun', () => {
+  it('runs one job at a time per group, in order', async () => {
+    const first = deferred();
+    const order: string[] = [];
+    const a = enqueueGroupRun('serial', async () => { order.push('a'); await first.promise; });
+    const b = enqueueGroupRun('serial', async () => { order.push('b'); });
+
+    await Promise.resolve();
+    expect(order).toEqual(['a']);
+    expect(getQueueStatus('serial')).toMatchObject({ willWait: true, ahead: 2 });
+
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(order).toEqual(['a', 'b']);
+    expect(isGroupRunning('serial')).toBe(false);
+  });
+
+  it('frees the group and slot when a job throws synchronously', async () => {
+    const failing = enqueueGroupRun('throws', () => {
+      throw new Error('bad job');
+    });
+    await expect(failing).rejects.toThrow('bad job');
+    expect(isGroupRunning('throws')).toBe(false);
+
+    await expect(enqueueGroupRun('throws', async () => 'next')).resolves.toBe('next');
+  });
+
+  it('caps runs across groups', async () => {
+    const gate = deferred();
+    const runs = Array.from({ length: MAX_CONCURRENT_CONTAINERS }, (_, i) =>
+      enqueueGroupRun(`busy-${i}`, () => gate.promise));
+    await Promise.resolve();
+    expect(getQueueStatus('idle')).toEqual({ willWait: true, ahead: 0 });
+
+    gate.resolve();
+    await Promise.all(runs);
+    expect(getQueueStatus('idle')).toEqual({ willWait: false, ahead: 0 });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Group Run Queue for NanoClaw
+ * Serializes container runs per group folder (they share /workspace/group and .claude/)
+ * and caps how many containers run at once across all groups
+ */
+
+import pino from 'pino';
+import { MAX_CONCURRENT_CONTAINERS } from './config.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  transport: { target: 'pino-pretty', options: { colorize: true } }
+});
+
+interface GroupQueue {
+  running: boolean;
+  jobs: Array<() => Promise<void>>;
+}
+
+// Insertion order doubles as round-robin order between groups
+const queues = new Map<string, GroupQueue>();
+let activeRuns = 0;
+
+function drain(): void {
+  for (const [groupFolder, queue] of queues) {
+    if (activeRuns >= MAX_CONCURRENT_CONTAINERS) return;
+    if (queue.running || queue.jobs.length === 0) continue;
+
+    const job = queue.jobs.shift()!;
+    queue.running = true;
+    activeRuns++;
+    logger.debug({ groupFolder, activeRuns, waiting: queue.jobs.length }, 'Group run started');
+
+    job().finally(() => {
+      queue.running = false;
+      activeRuns--;
+      // Re-insert at the back so other waiting groups get the next free slot
+      queues.delete(groupFolder);
+      if (queue.jobs.length > 0) queues.set(groupFolder, queue);
+      drain();
+    });
+  }
+}
+
+/**
+ * Queue a run for a group. Resolves (or rejects) with the job once it has run.
+ */
+export function enqueueGroupRun<T>(groupFolder: string, job: () => Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let queue = queues.get(groupFolder);
+    if (!queue) {
+      queue = { running: false, jobs: [] };
+      queues.set(groupFolder, queue);
+    }
+    // Via then() so a job that throws synchronously rejects instead of leaving the group marked running
+    queue.jobs.push(() => Promise.resolve().then(job).then(resolve, reject));
+    drain();
+  });
+}
+
+/**
+ * Whether a run enqueued now would have to wait, and how many runs are ahead of it.
+ */
+export function getQueueStatus(groupFolder: string): { willWait: boolean; ahead: number } {
+  const queue = queues.get(groupFolder);
+  const ahead = queue ? queue.jobs.length + (queue.running ? 1 : 0) : 0;
+  return {
+    willWait: ahead > 0 || activeRuns >= MAX_CONCURRENT_CONTAINERS,
+    ahead
+  };
+}
+
+export function isGroupRunning(groupFolder: string): boolean {
+  return queues.get(groupFolder)?.running ?? false;
+}
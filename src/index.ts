@@ -1,22 +1,39 @@
 import 'dotenv/config';
 import pino from 'pino';
-import { execSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
+import { CronExpressionParser } from 'cron-parser';
 
 import {
   ASSISTANT_NAME,
   DATA_DIR,
-  MAIN_GROUP_FOLDER,
-  IPC_POLL_INTERVAL,
+  GROUPS_DIR,
   TIMEZONE
 } from './config.js';
-import { RegisteredGroup, Session } from './types.js';
-import { initDatabase, getAllTasks, getTaskById, updateTask, createTask, deleteTask } from './db.js';
-import { startSchedulerLoop } from './task-scheduler.js';
-import { writeTasksSnapshot, writeGroupsSnapshot, writeTelegramPendingSnapshot } from './container-runner.js';
+import { RegisteredGroup, ScheduledTask, Session, TelegramRole } from './types.js';
+import {
+  initDatabase,
+  getAllTasks,
+  getTaskById,
+  updateTask,
+  createTask,
+  deleteTask,
+  getDeadOutboxMessages,
+  requeueDeadOutboxMessages
+} from './db.js';
+import { findDependencyCycle, parseUpstreamIds, startSchedulerLoop } from './task-scheduler.js';
+import { cancelRun, listActiveRuns, writeTasksSnapshot, writeGroupsSnapshot } from './container-runner.js';
 import { loadJson, saveJson } from './utils.js';
-import { startTelegram, sendTelegramMessage } from './telegram.js';
+import { telegramChannel } from './telegram.js';
+import { registerChannel, findChannel, sendFileToChannel, startChannels, getChannels } from './channels.js';
+import { getContainerRuntime } from './container-runtime.js';
+import { formatInZone, isValidTimezone, parseTimestampInZone } from './timezone.js';
+import { formatPreview, parseScheduleText, previewSchedule } from './schedule-parser.js';
+import { setQuietHours } from './quiet-hours.js';
+import { flushOutbox, queueMessage, startOutboxWorker } from './outbox.js';
+import { getRequestRole, lowerRole, roleAtLeast } from './roles.js';
+import { IpcMessageRequest, IpcTaskRequest } from './ipc-schema.js';
+import { IpcResult, startIpcWatcher } from './ipc-watcher.js';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
@@ -43,302 +60,623 @@ function registerGroup(jid: string, group: RegisteredGroup): void {
   logger.info({ jid, name: group.name, folder: group.folder }, 'Group registered');
 }
 
-function startIpcWatcher(): void {
-  const ipcBaseDir = path.join(DATA_DIR, 'ipc');
-  fs.mkdirSync(ipcBaseDir, { recursive: true });
+/**
+ * Main may message any chat; other groups only the chats mapped to their own folder.
+ */
+function canSendToJid(jid: string, sourceGroup: string, isMain: boolean): boolean {
+  if (isMain) return true;
+  if (registeredGroups[jid]?.folder === sourceGroup) return true;
+  return findChannel(jid)?.folderForJid(jid) === sourceGroup;
+}
 
-  const processIpcFiles = async () => {
-    // Scan all group IPC directories (identity determined by directory)
-    let groupFolders: string[];
-    try {
-      groupFolders = fs.readdirSync(ipcBaseDir).filter(f => {
-        const stat = fs.statSync(path.join(ipcBaseDir, f));
-        return stat.isDirectory() && f !== 'errors';
-      });
-    } catch (err) {
-      logger.error({ err }, 'Error reading IPC base directory');
-      setTimeout(processIpcFiles, IPC_POLL_INTERVAL);
-      return;
+/**
+ * Resolve a file path sent by a container to a host path inside the group's folder.
+ * Returns null if it escapes the folder (including via symlinks) or is not a regular file.
+ */
+function resolveGroupFile(groupFolder: string, relativePath: string): string | null {
+  const groupDir = path.join(GROUPS_DIR, groupFolder);
+  const candidate = path.resolve(groupDir, relativePath);
+  try {
+    const realGroupDir = fs.realpathSync(groupDir);
+    const realFile = fs.realpathSync(candidate);
+    if (!realFile.startsWith(realGroupDir + path.sep)) return null;
+    if (!fs.statSync(realFile).isFile()) return null;
+    return realFile;
+  } catch {
+    return null;
+  }
+}
+
+async function processMessageIpc(
+  data: IpcMessageRequest,
+  sourceGroup: string,
+  isMain: boolean
+): Promise<IpcResult> {
+  if (!canSendToJid(data.chatJid, sourceGroup, isMain)) {
+    logger.warn({ chatJid: data.chatJid, sourceGroup }, 'Unauthorized IPC message attempt blocked');
+    return { ok: false, message: 'Not authorized to send to that chat' };
+  }
+
+  switch (data.type) {
+    case 'message': {
+      // Written to the outbox first, so a failed send is retried rather than lost,
+      // including when the chat's channel isn't registered yet
+      const channelName = findChannel(data.chatJid)?.name ?? 'its channel';
+      const outcome = await queueMessage(data.chatJid, `${ASSISTANT_NAME}: ${data.text}`, !!data.urgent);
+      if (outcome.status === 'held') {
+        return { ok: true, message: `Chat is in quiet hours; message held until ${outcome.until} and sent in a digest` };
+      }
+      if (outcome.status === 'queued') {
+        return {
+          ok: true,
+          message: outcome.error
+            ? `Delivery via ${channelName} failed (${outcome.error}); queued for retry at ${outcome.retryAt}`
+            : 'Message queued behind earlier messages to this chat'
+        };
+      }
+      if (outcome.status === 'dead') {
+        return { ok: false, message: `Delivery via ${channelName} failed: ${outcome.error}` };
+      }
+      logger.info({ chatJid: data.chatJid, sourceGroup, channel: channelName }, 'IPC message sent');
+      return { ok: true, message: 'Message delivered' };
     }
 
-    for (const sourceGroup of groupFolders) {
-      const isMain = sourceGroup === MAIN_GROUP_FOLDER;
-      const messagesDir = path.join(ipcBaseDir, sourceGroup, 'messages');
-      const tasksDir = path.join(ipcBaseDir, sourceGroup, 'tasks');
-
-      // Process messages from this group's IPC directory
-      try {
-        if (fs.existsSync(messagesDir)) {
-          const messageFiles = fs.readdirSync(messagesDir).filter(f => f.endsWith('.json'));
-          for (const file of messageFiles) {
-            const filePath = path.join(messagesDir, file);
-            try {
-              const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-              if (data.type === 'message' && data.chatJid && data.text) {
-                // All messages go to Telegram now
-                if (data.chatJid.startsWith('tg:')) {
-                  if (isMain) {
-                    const chatId = parseInt(data.chatJid.replace('tg:', ''), 10);
-                    if (!isNaN(chatId)) {
-                      await sendTelegramMessage(chatId, `${ASSISTANT_NAME}: ${data.text}`);
-                      logger.info({ chatJid: data.chatJid, sourceGroup }, 'IPC Telegram message sent');
-                    } else {
-                      logger.warn({ chatJid: data.chatJid }, 'Invalid Telegram chat ID');
-                    }
-                  } else {
-                    logger.warn({ chatJid: data.chatJid, sourceGroup }, 'Unauthorized Telegram IPC message attempt blocked');
-                  }
-                } else {
-                  logger.warn({ chatJid: data.chatJid }, 'Non-Telegram JID - WhatsApp removed');
-                }
-              }
-              fs.unlinkSync(filePath);
-            } catch (err) {
-              logger.error({ file, sourceGroup, err }, 'Error processing IPC message');
-              const errorDir = path.join(ipcBaseDir, 'errors');
-              fs.mkdirSync(errorDir, { recursive: true });
-              fs.renameSync(filePath, path.join(errorDir, `${sourceGroup}-${file}`));
-            }
-          }
-        }
-      } catch (err) {
-        logger.error({ err, sourceGroup }, 'Error reading IPC messages directory');
-      }
-
-      // Process tasks from this group's IPC directory
-      try {
-        if (fs.existsSync(tasksDir)) {
-          const taskFiles = fs.readdirSync(tasksDir).filter(f => f.endsWith('.json'));
-          for (const file of taskFiles) {
-            const filePath = path.join(tasksDir, file);
-            try {
-              const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-              await processTaskIpc(data, sourceGroup, isMain);
-              fs.unlinkSync(filePath);
-            } catch (err) {
-              logger.error({ file, sourceGroup, err }, 'Error processing IPC task');
-              const errorDir = path.join(ipcBaseDir, 'errors');
-              fs.mkdirSync(errorDir, { recursive: true });
-              fs.renameSync(filePath, path.join(errorDir, `${sourceGroup}-${file}`));
-            }
-          }
-        }
-      } catch (err) {
-        logger.error({ err, sourceGroup }, 'Error reading IPC tasks directory');
+    case 'file': {
+      // Files aren't queued, so they need the channel now
+      const channel = findChannel(data.chatJid);
+      if (!channel) {
+        logger.warn({ chatJid: data.chatJid }, 'No channel for IPC file JID');
+        return { ok: false, message: `No channel handles ${data.chatJid}` };
+      }
+      const hostPath = resolveGroupFile(sourceGroup, data.filePath);
+      if (!hostPath) {
+        logger.warn({ filePath: data.filePath, sourceGroup }, 'IPC file path rejected (outside group folder or not a file)');
+        return { ok: false, message: 'File must be a regular file inside the group folder' };
+      }
+      if (!await sendFileToChannel(data.chatJid, hostPath, data.caption)) {
+        return { ok: false, message: `File delivery via ${channel.name} failed` };
       }
+      logger.info({ chatJid: data.chatJid, sourceGroup, file: data.filePath }, 'IPC file sent');
+      return { ok: true, message: 'File delivered' };
     }
+  }
+}
+
+/**
+ * When a new schedule first fires, or why its value is invalid for the schedule type.
+ */
+function computeFirstRun(
+  scheduleType: ScheduledTask['schedule_type'],
+  scheduleValue: string,
+  timezone: string
+): { nextRun: string | null } | { error: string } {
+  // Dependent tasks wait for their upstreams (checked separately by checkUpstreamTasks)
+  if (scheduleType === 'after_task') {
+    return { nextRun: null };
+  }
+  if (scheduleType === 'cron') {
+    try {
+      const interval = CronExpressionParser.parse(scheduleValue, { tz: timezone });
+      return { nextRun: interval.next().toISOString()! };
+    } catch {
+      logger.warn({ scheduleValue }, 'Invalid cron expression');
+      return { error: `Invalid cron expression: "${scheduleValue}"` };
+    }
+  }
+  if (scheduleType === 'interval') {
+    const ms = parseInt(scheduleValue, 10);
+    if (isNaN(ms) || ms <= 0) {
+      logger.warn({ scheduleValue }, 'Invalid interval');
+      return { error: `Invalid interval: "${scheduleValue}"` };
+    }
+    return { nextRun: new Date(Date.now() + ms).toISOString() };
+  }
+  const scheduled = parseTimestampInZone(scheduleValue, timezone);
+  if (!scheduled) {
+    logger.warn({ scheduleValue }, 'Invalid timestamp');
+    return { error: `Invalid timestamp: "${scheduleValue}"` };
+  }
+  return { nextRun: scheduled.toISOString() };
+}
+
+/**
+ * Resolve an ends_at value in the task's timezone; it must lie in the future.
+ */
+function resolveEndsAt(value: string, timezone: string): { endsAt: string } | { error: string } {
+  const endsAt = parseTimestampInZone(value, timezone);
+  if (!endsAt) {
+    return { error: `Invalid ends_at: "${value}"` };
+  }
+  if (endsAt.getTime() <= Date.now()) {
+    return { error: `ends_at ${endsAt.toISOString()} is in the past` };
+  }
+  return { endsAt: endsAt.toISOString() };
+}
+
+/**
+ * The schedule of a schedule_task or preview_schedule request: its phrase parsed in `timezone`,
+ * or the explicit type and value (the schema guarantees one or the other).
+ */
+function resolveSchedule(
+  data: { schedule_text?: string; schedule_type?: ScheduledTask['schedule_type']; schedule_value?: string },
+  timezone: string
+): { scheduleType: ScheduledTask['schedule_type']; scheduleValue: string; description?: string } | { error: string } {
+  if (data.schedule_text === undefined) {
+    return { scheduleType: data.schedule_type!, scheduleValue: data.schedule_value! };
+  }
+  const parsed = parseScheduleText(data.schedule_text, new Date(), timezone);
+  if ('error' in parsed) {
+    return parsed;
+  }
+  return { scheduleType: parsed.schedule_type, scheduleValue: parsed.schedule_value, description: parsed.description };
+}
+
+/**
+ * Summary of a schedule for the agent to confirm with the user: its reading and the next fire times.
+ */
+function describeSchedule(
+  scheduleType: ScheduledTask['schedule_type'],
+  scheduleValue: string,
+  timezone: string,
+  description?: string
+): string {
+  const lines = [`Schedule: ${scheduleType} "${scheduleValue}"${description ? ` (${description})` : ''}`];
+  const times = previewSchedule(scheduleType, scheduleValue, timezone, new Date());
+  if (times.length > 0) {
+    lines.push(`Next runs:\n${formatPreview(times, timezone)}`);
+  }
+  return lines.join('\n');
+}
+
+function unknownTimezoneError(timezone: string): string {
+  return `Unknown timezone "${timezone}". Use an IANA name like "Europe/Berlin" or "America/New_York".`;
+}
 
-    setTimeout(processIpcFiles, IPC_POLL_INTERVAL);
-  };
+/**
+ * Validate an after_task upstream list: tasks must exist, be visible to the group, and not form a cycle.
+ * Returns an error message, or null if the list is fine.
+ */
+function checkUpstreamTasks(taskId: string, scheduleValue: string, groupFolder: string, isMain: boolean): string | null {
+  const upstreamIds = parseUpstreamIds(scheduleValue);
+  if (upstreamIds.length === 0) {
+    return 'after_task needs at least one upstream task ID in schedule_value';
+  }
+  for (const id of upstreamIds) {
+    const upstream = getTaskById(id);
+    if (!upstream) {
+      return `Upstream task ${id} not found`;
+    }
+    // Upstream results are fed into the dependent's prompt, so non-main groups can only chain their own tasks
+    if (!isMain && upstream.group_folder !== groupFolder) {
+      return `Upstream task ${id} belongs to another group`;
+    }
+  }
+  const cycle = findDependencyCycle(taskId, upstreamIds);
+  if (cycle) {
+    logger.warn({ taskId, cycle }, 'Task dependency cycle rejected');
+    return `Dependency cycle: ${cycle.join(' -> ')}`;
+  }
+  return null;
+}
 
-  processIpcFiles();
-  logger.info('IPC watcher started (per-group namespaces)');
+/**
+ * Null if the Telegram user behind the requesting run has at least `min`, otherwise an
+ * error result. The attempt is logged like other blocked requests.
+ */
+function requireRole(data: IpcTaskRequest, sourceGroup: string, role: TelegramRole | undefined, min: TelegramRole): IpcResult | null {
+  if (roleAtLeast(role, min)) return null;
+  logger.warn({ sourceGroup, role, type: data.type }, 'IPC request blocked by Telegram role');
+  return { ok: false, message: `Requires the ${min} role or higher (this run's role: ${role ?? 'none'})` };
 }
 
 async function processTaskIpc(
-  data: {
-    type: string;
-    taskId?: string;
-    prompt?: string;
-    schedule_type?: string;
-    schedule_value?: string;
-    context_mode?: string;
-    groupFolder?: string;
-    chatJid?: string;
-    // For register_group
-    jid?: string;
-    name?: string;
-    folder?: string;
-    trigger?: string;
-    containerConfig?: RegisteredGroup['containerConfig'];
-    // For telegram approval
-    userId?: number | string;
-  },
+  data: IpcTaskRequest,
   sourceGroup: string,
-  isMain: boolean
-): Promise<void> {
-  const { CronExpressionParser } = await import('cron-parser');
-
+  isMain: boolean,
+  role: TelegramRole | undefined
+): Promise<IpcResult> {
   switch (data.type) {
-    case 'schedule_task':
-      if (data.prompt && data.schedule_type && data.schedule_value && data.groupFolder) {
-        const targetGroup = data.groupFolder;
-        if (!isMain && targetGroup !== sourceGroup) {
-          logger.warn({ sourceGroup, targetGroup }, 'Unauthorized schedule_task attempt blocked');
-          break;
-        }
+    case 'schedule_task': {
+      const denied = requireRole(data, sourceGroup, role, 'member');
+      if (denied) return denied;
+      const targetGroup = data.groupFolder;
+      if (!isMain && targetGroup !== sourceGroup) {
+        logger.warn({ sourceGroup, targetGroup }, 'Unauthorized schedule_task attempt blocked');
+        return { ok: false, message: 'Only the main group can schedule tasks for other groups' };
+      }
 
-        // For Telegram-only, use the chatJid directly
-        const targetJid = data.chatJid || Object.entries(registeredGroups).find(
-          ([, group]) => group.folder === targetGroup
-        )?.[0];
+      // For Telegram-only, use the chatJid directly
+      const targetJid = data.chatJid || Object.entries(registeredGroups).find(
+        ([, group]) => group.folder === targetGroup
+      )?.[0];
 
-        if (!targetJid) {
-          logger.warn({ targetGroup }, 'Cannot schedule task: no JID available');
-          break;
+      if (!targetJid) {
+        logger.warn({ targetGroup }, 'Cannot schedule task: no JID available');
+        return { ok: false, message: `No chat found for group "${targetGroup}"` };
+      }
+
+      const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      if (data.timezone && !isValidTimezone(data.timezone)) {
+        return { ok: false, message: unknownTimezoneError(data.timezone) };
+      }
+      const timezone = data.timezone || TIMEZONE;
+
+      const schedule = resolveSchedule(data, timezone);
+      if ('error' in schedule) {
+        return { ok: false, message: schedule.error };
+      }
+      const { scheduleType, scheduleValue } = schedule;
+      const firstRun = computeFirstRun(scheduleType, scheduleValue, timezone);
+      if ('error' in firstRun) {
+        return { ok: false, message: firstRun.error };
+      }
+      const nextRun = firstRun.nextRun;
+      if (scheduleType === 'after_task') {
+        const upstreamError = checkUpstreamTasks(taskId, scheduleValue, targetGroup, isMain);
+        if (upstreamError) {
+          return { ok: false, message: upstreamError };
+        }
+      }
+
+      let endsAt: string | null = null;
+      if (data.ends_at) {
+        const resolved = resolveEndsAt(data.ends_at, timezone);
+        if ('error' in resolved) {
+          return { ok: false, message: resolved.error };
+        }
+        endsAt = resolved.endsAt;
+        if (nextRun && nextRun > endsAt) {
+          return { ok: false, message: `First run ${nextRun} would be after ends_at ${endsAt}` };
         }
+      }
+
+      const contextMode = data.context_mode;
+      createTask({
+        id: taskId,
+        group_folder: targetGroup,
+        chat_jid: targetJid,
+        prompt: data.prompt,
+        schedule_type: scheduleType,
+        schedule_value: scheduleValue,
+        context_mode: contextMode,
+        next_run: nextRun,
+        status: 'active',
+        created_at: new Date().toISOString(),
+        max_attempts: data.max_attempts,
+        retry_backoff_ms: data.retry_backoff_ms,
+        misfire_policy: data.misfire_policy,
+        misfire_grace_ms: data.misfire_grace_ms,
+        after_condition: data.after_condition,
+        notify_mode: data.notify_mode,
+        timezone: data.timezone ?? null,
+        ends_at: endsAt,
+        max_runs: data.max_runs ?? null,
+        // The task's runs act for whoever scheduled it
+        role: role ?? null
+      });
+      logger.info({ taskId, sourceGroup, targetGroup, contextMode }, 'Task created via IPC');
+      return {
+        ok: true,
+        message: scheduleType === 'after_task'
+          ? `Task ${taskId} scheduled, runs after ${scheduleValue} (on ${data.after_condition ?? 'success'})`
+          : `Task ${taskId} scheduled.\n${describeSchedule(scheduleType, scheduleValue, timezone, schedule.description)}`
+      };
+    }
+
+    case 'preview_schedule': {
+      if (data.timezone && !isValidTimezone(data.timezone)) {
+        return { ok: false, message: unknownTimezoneError(data.timezone) };
+      }
+      const timezone = data.timezone || TIMEZONE;
+      const schedule = resolveSchedule(data, timezone);
+      if ('error' in schedule) {
+        return { ok: false, message: schedule.error };
+      }
+      const { scheduleType, scheduleValue } = schedule;
+      if (scheduleType === 'after_task') {
+        return { ok: true, message: `Schedule: after_task "${scheduleValue}" (runs when its upstream tasks finish)` };
+      }
+      const firstRun = computeFirstRun(scheduleType, scheduleValue, timezone);
+      if ('error' in firstRun) {
+        return { ok: false, message: firstRun.error };
+      }
+      return { ok: true, message: describeSchedule(scheduleType, scheduleValue, timezone, schedule.description) };
+    }
 
-        const scheduleType = data.schedule_type as 'cron' | 'interval' | 'once';
+    case 'pause_task':
+    case 'resume_task':
+    case 'update_task':
+    case 'cancel_task': {
+      const denied = requireRole(data, sourceGroup, role, 'member');
+      if (denied) return denied;
+      const task = getTaskById(data.taskId);
+      if (!task) {
+        return { ok: false, message: `Task ${data.taskId} not found` };
+      }
+      if (!isMain && task.group_folder !== sourceGroup) {
+        logger.warn({ taskId: data.taskId, sourceGroup, type: data.type }, 'Unauthorized task operation attempt');
+        return { ok: false, message: `Task ${data.taskId} belongs to another group` };
+      }
 
-        let nextRun: string | null = null;
-        if (scheduleType === 'cron') {
-          try {
-            const interval = CronExpressionParser.parse(data.schedule_value, { tz: TIMEZONE });
-            nextRun = interval.next().toISOString();
-          } catch {
-            logger.warn({ scheduleValue: data.schedule_value }, 'Invalid cron expression');
-            break;
+      if (data.type === 'pause_task') {
+        updateTask(data.taskId, { status: 'paused' });
+        logger.info({ taskId: data.taskId, sourceGroup }, 'Task paused via IPC');
+        return { ok: true, message: `Task ${data.taskId} paused` };
+      }
+      if (data.type === 'resume_task') {
+        // A one-off task that ran out of attempts gets another go straight away
+        const retryNow = task.status === 'failed' && !task.next_run;
+        updateTask(data.taskId, { status: 'active', ...(retryNow && { next_run: new Date().toISOString() }) });
+        logger.info({ taskId: data.taskId, sourceGroup }, 'Task resumed via IPC');
+        return { ok: true, message: `Task ${data.taskId} resumed` };
+      }
+      if (data.type === 'update_task') {
+        if (data.timezone && !isValidTimezone(data.timezone)) {
+          return { ok: false, message: unknownTimezoneError(data.timezone) };
+        }
+        const timezone = data.timezone || task.timezone || TIMEZONE;
+        const scheduleType = data.schedule_type ?? task.schedule_type;
+
+        // A new timezone moves cron and once schedules, so recompute those too
+        const rescheduled = data.schedule_value !== undefined ||
+          (data.timezone !== undefined && (scheduleType === 'cron' || scheduleType === 'once'));
+        let nextRun: string | null | undefined;
+        if (rescheduled) {
+          const firstRun = computeFirstRun(scheduleType, data.schedule_value ?? task.schedule_value, timezone);
+          if ('error' in firstRun) {
+            return { ok: false, message: firstRun.error };
           }
-        } else if (scheduleType === 'interval') {
-          const ms = parseInt(data.schedule_value, 10);
-          if (isNaN(ms) || ms <= 0) {
-            logger.warn({ scheduleValue: data.schedule_value }, 'Invalid interval');
-            break;
+          nextRun = firstRun.nextRun;
+          if (scheduleType === 'after_task' && data.schedule_value !== undefined) {
+            const upstreamError = checkUpstreamTasks(task.id, data.schedule_value, task.group_folder, isMain);
+            if (upstreamError) {
+              return { ok: false, message: upstreamError };
+            }
           }
-          nextRun = new Date(Date.now() + ms).toISOString();
-        } else if (scheduleType === 'once') {
-          const scheduled = new Date(data.schedule_value);
-          if (isNaN(scheduled.getTime())) {
-            logger.warn({ scheduleValue: data.schedule_value }, 'Invalid timestamp');
-            break;
+        }
+
+        let endsAt: string | null | undefined = data.ends_at === null ? null : undefined;
+        if (data.ends_at) {
+          const resolved = resolveEndsAt(data.ends_at, timezone);
+          if ('error' in resolved) {
+            return { ok: false, message: resolved.error };
           }
-          nextRun = scheduled.toISOString();
+          endsAt = resolved.endsAt;
+        }
+        const effectiveEnd = endsAt !== undefined ? endsAt : task.ends_at;
+        const effectiveNext = nextRun !== undefined ? nextRun : task.next_run;
+        if (effectiveEnd && effectiveNext && effectiveNext > effectiveEnd) {
+          return { ok: false, message: `Next run ${effectiveNext} would be after ends_at ${effectiveEnd}` };
         }
+        // Lowering max_runs to what has already run ends the task now
+        const runsUsedUp = !!data.max_runs && data.max_runs <= task.run_count;
 
-        const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-        const contextMode = (data.context_mode === 'group' || data.context_mode === 'isolated')
-          ? data.context_mode
-          : 'isolated';
-        createTask({
-          id: taskId,
-          group_folder: targetGroup,
-          chat_jid: targetJid,
+        updateTask(data.taskId, {
           prompt: data.prompt,
-          schedule_type: scheduleType,
+          schedule_type: data.schedule_type,
           schedule_value: data.schedule_value,
-          context_mode: contextMode,
-          next_run: nextRun,
-          status: 'active',
-          created_at: new Date().toISOString()
+          context_mode: data.context_mode,
+          after_condition: data.after_condition,
+          notify_mode: data.notify_mode,
+          timezone: data.timezone,
+          ends_at: endsAt,
+          max_runs: data.max_runs,
+          // A less trusted run that edits the task mustn't get to run it with more access
+          role: role && (task.role ? lowerRole(task.role, role) : role),
+          next_run: runsUsedUp ? null : nextRun,
+          // A finished one-off task given a new schedule runs again; paused tasks stay paused
+          ...(rescheduled && (task.status === 'completed' || task.status === 'failed') && { status: 'active' as const }),
+          ...(runsUsedUp && { status: 'completed' as const })
         });
-        logger.info({ taskId, sourceGroup, targetGroup, contextMode }, 'Task created via IPC');
+        logger.info({ taskId: data.taskId, sourceGroup, nextRun }, 'Task updated via IPC');
+        return {
+          ok: true,
+          message: nextRun ? `Task ${data.taskId} updated, next run: ${nextRun}` : `Task ${data.taskId} updated`
+        };
       }
-      break;
+      deleteTask(data.taskId);
+      logger.info({ taskId: data.taskId, sourceGroup }, 'Task cancelled via IPC');
+      return { ok: true, message: `Task ${data.taskId} cancelled` };
+    }
 
-    case 'pause_task':
-      if (data.taskId) {
-        const task = getTaskById(data.taskId);
-        if (task && (isMain || task.group_folder === sourceGroup)) {
-          updateTask(data.taskId, { status: 'paused' });
-          logger.info({ taskId: data.taskId, sourceGroup }, 'Task paused via IPC');
-        } else {
-          logger.warn({ taskId: data.taskId, sourceGroup }, 'Unauthorized task pause attempt');
-        }
+    case 'register_group': {
+      if (!isMain) {
+        logger.warn({ sourceGroup }, 'Unauthorized register_group attempt blocked');
+        return { ok: false, message: 'Only the main group can register groups' };
       }
-      break;
+      const denied = requireRole(data, sourceGroup, role, 'admin');
+      if (denied) return denied;
+      registerGroup(data.jid, {
+        name: data.name,
+        folder: data.folder,
+        trigger: data.trigger,
+        added_at: new Date().toISOString(),
+        containerConfig: data.containerConfig
+      });
+      return { ok: true, message: `Group "${data.name}" registered` };
+    }
 
-    case 'resume_task':
-      if (data.taskId) {
-        const task = getTaskById(data.taskId);
-        if (task && (isMain || task.group_folder === sourceGroup)) {
-          updateTask(data.taskId, { status: 'active' });
-          logger.info({ taskId: data.taskId, sourceGroup }, 'Task resumed via IPC');
-        } else {
-          logger.warn({ taskId: data.taskId, sourceGroup }, 'Unauthorized task resume attempt');
-        }
+    case 'set_quiet_hours': {
+      const denied = requireRole(data, sourceGroup, role, 'member');
+      if (denied) return denied;
+      if (!canSendToJid(data.chatJid, sourceGroup, isMain)) {
+        logger.warn({ chatJid: data.chatJid, sourceGroup }, 'Unauthorized set_quiet_hours attempt blocked');
+        return { ok: false, message: 'Not authorized to configure that chat' };
+      }
+      if (data.quiet_hours?.timezone && !isValidTimezone(data.quiet_hours.timezone)) {
+        return { ok: false, message: unknownTimezoneError(data.quiet_hours.timezone) };
+      }
+      setQuietHours(data.chatJid, data.quiet_hours);
+      if (!data.quiet_hours) {
+        return { ok: true, message: 'Quiet hours turned off' };
       }
-      break;
+      const { start, end, timezone } = data.quiet_hours;
+      return { ok: true, message: `Quiet hours set to ${start}-${end} (${timezone || TIMEZONE})` };
+    }
 
-    case 'cancel_task':
-      if (data.taskId) {
-        const task = getTaskById(data.taskId);
-        if (task && (isMain || task.group_folder === sourceGroup)) {
-          deleteTask(data.taskId);
-          logger.info({ taskId: data.taskId, sourceGroup }, 'Task cancelled via IPC');
-        } else {
-          logger.warn({ taskId: data.taskId, sourceGroup }, 'Unauthorized task cancel attempt');
-        }
+    case 'list_failed_deliveries': {
+      if (!isMain) {
+        logger.warn({ sourceGroup }, 'Unauthorized list_failed_deliveries attempt blocked');
+        return { ok: false, message: 'Only the main group can manage failed deliveries' };
+      }
+      const denied = requireRole(data, sourceGroup, role, 'admin');
+      if (denied) return denied;
+      const dead = getDeadOutboxMessages();
+      if (dead.length === 0) {
+        return { ok: true, message: 'No failed deliveries' };
       }
-      break;
+      const lines = dead.map(m =>
+        `- #${m.id} to ${m.chat_jid} (${m.created_at}, ${m.attempts} attempts): ${m.last_error}\n  ${m.text.slice(0, 100)}${m.text.length > 100 ? '...' : ''}`
+      );
+      return { ok: true, message: `${dead.length} failed deliveries:\n${lines.join('\n')}` };
+    }
 
-    case 'register_group':
+    case 'resend_failed_deliveries': {
       if (!isMain) {
-        logger.warn({ sourceGroup }, 'Unauthorized register_group attempt blocked');
-        break;
-      }
-      if (data.jid && data.name && data.folder && data.trigger) {
-        registerGroup(data.jid, {
-          name: data.name,
-          folder: data.folder,
-          trigger: data.trigger,
-          added_at: new Date().toISOString(),
-          containerConfig: data.containerConfig
-        });
-      } else {
-        logger.warn({ data }, 'Invalid register_group request - missing required fields');
+        logger.warn({ sourceGroup }, 'Unauthorized resend_failed_deliveries attempt blocked');
+        return { ok: false, message: 'Only the main group can manage failed deliveries' };
       }
-      break;
+      const denied = requireRole(data, sourceGroup, role, 'admin');
+      if (denied) return denied;
+      const count = requeueDeadOutboxMessages(data.ids);
+      logger.info({ count, ids: data.ids }, 'Failed deliveries requeued via IPC');
+      await flushOutbox();
+      const remaining = getDeadOutboxMessages().length;
+      return {
+        ok: true,
+        message: `Requeued ${count} message(s)${remaining > 0 ? `; ${remaining} failed again or were not selected` : ''}`
+      };
+    }
 
-    case 'telegram_approve':
+    case 'cancel_run': {
       if (!isMain) {
-        logger.warn({ sourceGroup }, 'Unauthorized telegram_approve attempt blocked');
-        break;
+        logger.warn({ sourceGroup }, 'Unauthorized cancel_run attempt blocked');
+        return { ok: false, message: 'Only the main group can cancel runs' };
+      }
+      const denied = requireRole(data, sourceGroup, role, 'admin');
+      if (denied) return denied;
+      // Killing the requesting container would also kill the agent waiting for this answer
+      if (data.groupFolder === sourceGroup) {
+        return { ok: false, message: 'A run cannot cancel itself' };
       }
-      if (data.userId) {
-        const { approveUser } = await import('./telegram.js');
-        approveUser(Number(data.userId), 'main');
-        logger.info({ userId: data.userId }, 'Telegram user approved via IPC');
+      const run = cancelRun(data.groupFolder, `ipc:${sourceGroup}`);
+      if (!run) {
+        const others = listActiveRuns().filter(r => r.groupFolder !== sourceGroup);
+        const running = others.length > 0
+          ? ` Running now: ${others.map(r => `${r.groupFolder} ("${r.promptPreview}")`).join(', ')}`
+          : '';
+        return { ok: false, message: `No run in progress for "${data.groupFolder}".${running}` };
       }
-      break;
+      const minutes = Math.round((Date.now() - run.startedAt) / 60000);
+      return { ok: true, message: `Cancelled the run in "${data.groupFolder}" ("${run.promptPreview}") after ${minutes} min` };
+    }
+
+    case 'telegram_approve': {
+      if (!isMain) {
+        logger.warn({ sourceGroup }, 'Unauthorized telegram_approve attempt blocked');
+        return { ok: false, message: 'Only the main group can approve Telegram users' };
+      }
+      const newRole = data.role ?? 'member';
+      // Only the owner can hand out admin or owner
+      const denied = requireRole(data, sourceGroup, role, roleAtLeast(newRole, 'admin') ? 'owner' : 'admin');
+      if (denied) return denied;
+      const { approveUser } = await import('./telegram.js');
+      const expiresAt = data.expires_in_days
+        ? new Date(Date.now() + data.expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+        : undefined;
+      const limits = data.daily_runs !== undefined || data.daily_runtime_minutes !== undefined
+        ? { dailyRuns: data.daily_runs, dailyRuntimeMinutes: data.daily_runtime_minutes }
+        : undefined;
+      approveUser(data.userId, 'main', { role: newRole, expiresAt, limits });
+      logger.info({ userId: data.userId, role: newRole, expiresAt, limits }, 'Telegram user approved via IPC');
+      return {
+        ok: true,
+        message: `Telegram user ${data.userId} approved as ${newRole}${expiresAt ? ` until ${formatInZone(new Date(expiresAt), TIMEZONE)}` : ''}`
+      };
+    }
 
-    case 'telegram_deny':
+    case 'telegram_deny': {
       if (!isMain) {
         logger.warn({ sourceGroup }, 'Unauthorized telegram_deny attempt blocked');
-        break;
+        return { ok: false, message: 'Only the main group can deny Telegram users' };
       }
-      if (data.userId) {
-        const { denyUser } = await import('./telegram.js');
-        denyUser(Number(data.userId));
-        logger.info({ userId: data.userId }, 'Telegram user denied via IPC');
+      const denied = requireRole(data, sourceGroup, role, 'admin');
+      if (denied) return denied;
+      const { denyUser } = await import('./telegram.js');
+      if (!denyUser(data.userId)) {
+        return { ok: false, message: `No pending request from Telegram user ${data.userId}` };
       }
-      break;
+      logger.info({ userId: data.userId }, 'Telegram user denied via IPC');
+      return { ok: true, message: `Telegram user ${data.userId} denied` };
+    }
 
-    case 'telegram_list_pending':
+    case 'telegram_list_pending': {
       if (!isMain) {
-        break;
+        return { ok: false, message: 'Only the main group can list pending approvals' };
       }
+      const denied = requireRole(data, sourceGroup, role, 'admin');
+      if (denied) return denied;
       const { listPendingApprovals } = await import('./telegram.js');
       const pending = listPendingApprovals();
-      logger.info({ pending }, 'Telegram pending approvals');
-      break;
+      if (pending.length === 0) {
+        return { ok: true, message: 'No pending Telegram approvals' };
+      }
+      const lines = pending.map(p => {
+        const name = p.username ? `@${p.username}` : p.firstName || 'Unknown';
+        return `- ID: ${p.userId} | ${name} | requested ${formatInZone(new Date(p.requestedAt), TIMEZONE)}`;
+      });
+      return {
+        ok: true,
+        message: `${pending.length} pending approval(s):\n${lines.join('\n')}\n\nUse telegram_approve or telegram_deny with the user ID.`
+      };
+    }
+
+    case 'telegram_unpair': {
+      if (!isMain) {
+        logger.warn({ sourceGroup }, 'Unauthorized telegram_unpair attempt blocked');
+        return { ok: false, message: 'Only the main group can unpair Telegram users' };
+      }
+      const { getUserRole, unpairUser } = await import('./telegram.js');
+      // Only the owner can revoke an admin
+      const denied = requireRole(data, sourceGroup, role, roleAtLeast(getUserRole(data.userId) ?? 'guest', 'admin') ? 'owner' : 'admin');
+      if (denied) return denied;
+      if (!unpairUser(data.userId)) {
+        return { ok: false, message: `Telegram user ${data.userId} is not paired` };
+      }
+      logger.info({ userId: data.userId }, 'Telegram user unpaired via IPC');
+      return { ok: true, message: `Telegram user ${data.userId} unpaired` };
+    }
 
-    default:
-      logger.warn({ type: data.type }, 'Unknown IPC task type');
+    case 'telegram_list_paired': {
+      if (!isMain) {
+        return { ok: false, message: 'Only the main group can list paired users' };
+      }
+      const denied = requireRole(data, sourceGroup, role, 'admin');
+      if (denied) return denied;
+      const { listPairedUsers } = await import('./telegram.js');
+      const users = listPairedUsers();
+      if (users.length === 0) {
+        return { ok: true, message: 'No paired Telegram users' };
+      }
+      const lines = users.map(u => {
+        const name = u.username ? `@${u.username}` : u.firstName || 'Unknown';
+        const expiry = u.expiresAt
+          ? ` | ${u.expired ? 'expired' : 'expires'} ${formatInZone(new Date(u.expiresAt), TIMEZONE)}`
+          : '';
+        const limits = u.limits
+          ? ` | limits: ${u.limits.dailyRuns ?? 'default'} runs, ${u.limits.dailyRuntimeMinutes ?? 'default'} min`
+          : '';
+        return `- ID: ${u.userId} | ${name} | ${u.role} | paired ${u.pairedAt}${expiry}${limits} | today: ${u.usage.runs} runs, ${Math.round(u.usage.runtimeMs / 60000)} min`;
+      });
+      return { ok: true, message: `${users.length} paired Telegram user(s):\n${lines.join('\n')}` };
+    }
   }
 }
 
 function ensureContainerSystemRunning(): void {
-  try {
-    execSync('container system status', { stdio: 'pipe' });
-    logger.debug('Apple Container system already running');
-  } catch {
-    logger.info('Starting Apple Container system...');
-    try {
-      execSync('container system start', { stdio: 'pipe', timeout: 30000 });
-      logger.info('Apple Container system started');
-    } catch (err) {
-      logger.error({ err }, 'Failed to start Apple Container system');
-      console.error('\n╔════════════════════════════════════════════════════════════════╗');
-      console.error('║  FATAL: Apple Container system failed to start                 ║');
-      console.error('║                                                                ║');
-      console.error('║  Agents cannot run without Apple Container. To fix:           ║');
-      console.error('║  1. Install from: https://github.com/apple/container/releases ║');
-      console.error('║  2. Run: container system start                               ║');
-      console.error('║  3. Restart NanoClaw                                          ║');
-      console.error('╚════════════════════════════════════════════════════════════════╝\n');
-      throw new Error('Apple Container system is required but failed to start');
-    }
-  }
+  const runtime = getContainerRuntime();
+  runtime.ensureRunning();
+  logger.info({ runtime: runtime.name }, 'Container runtime ready');
 }
 
 async function main(): Promise<void> {
@@ -347,42 +685,43 @@ async function main(): Promise<void> {
   logger.info('Database initialized');
   loadState();
 
-  // Start IPC watcher
-  startIpcWatcher();
-
-  // Start scheduler
-  startSchedulerLoop({
-    sendMessage: async (jid: string, text: string) => {
-      // All scheduled task messages go to Telegram
-      if (jid.startsWith('tg:')) {
-        const chatId = parseInt(jid.replace('tg:', ''), 10);
-        if (!isNaN(chatId)) {
-          await sendTelegramMessage(chatId, text);
-        }
-      } else {
-        logger.warn({ jid }, 'Non-Telegram JID in scheduler - WhatsApp removed');
-      }
-    },
-    registeredGroups: () => registeredGroups,
-    getSessions: () => sessions
-  });
-
-  // Start Telegram bot (primary channel)
+  // Start channels (Telegram is the primary channel)
+  registerChannel(telegramChannel);
   try {
-    await startTelegram({
+    await startChannels({
       getRegisteredGroups: () => registeredGroups,
       getSessions: () => sessions,
+      // Callers pass the whole map, so removing a folder's entry resets its session
       setSessions: (newSessions) => {
-        sessions = { ...sessions, ...newSessions };
+        sessions = { ...newSessions };
         saveJson(path.join(DATA_DIR, 'sessions.json'), sessions);
       }
     });
-    logger.info(`NanoClaw running (Telegram-only, trigger: @${ASSISTANT_NAME})`);
+    const channelNames = getChannels().map(c => c.name).join(', ');
+    logger.info(`NanoClaw running (channels: ${channelNames}, trigger: @${ASSISTANT_NAME})`);
+
+    // Retry failed deliveries and release quiet-hours digests (including any left from before a restart)
+    startOutboxWorker();
   } catch (err) {
-    logger.error({ err }, 'Failed to start Telegram bot');
+    logger.error({ err }, 'Failed to start channels');
     process.exit(1);
   }
 
+  // Only now pick up IPC files and due tasks, so their sends find a registered channel
+  startIpcWatcher(path.join(DATA_DIR, 'ipc'), {
+    message: processMessageIpc,
+    task: (data, sourceGroup, isMain) => processTaskIpc(data, sourceGroup, isMain, getRequestRole(data.runId, sourceGroup))
+  });
+
+  // Start scheduler (its messages go through the outbox and respect quiet hours)
+  startSchedulerLoop({
+    sendMessage: async (jid: string, text: string) => {
+      await queueMessage(jid, text);
+    },
+    registeredGroups: () => registeredGroups,
+    getSessions: () => sessions
+  });
+
   // Keep the process alive
   process.on('SIGINT', () => {
     logger.info('Shutting down...');
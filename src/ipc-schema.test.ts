@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { IPC_MIN_SCHEMA_VERSION, IPC_SCHEMA_VERSION, parseIpcMessageRequest, parseIpcTaskRequest } from './ipc-schema.js';
+
+const message = { type: 'message', chatJid: 'tg:1', text: 'hello' };
+
+describe('schema versions', () => {
+  it('accepts requests at the current version', () => {
+    const parsed = parseIpcMessageRequest({ ...message, v: IPC_SCHEMA_VERSION });
+    expect(parsed).toMatchObject({ success: true, data: { type: 'message', chatJid: 'tg:1', text: 'hello' } });
+  });
+
+  it('treats requests without a version as v1 and asks for a container rebuild', () => {
+    expect(IPC_MIN_SCHEMA_VERSION).toBeGreaterThan(1);
+    const parsed = parseIpcMessageRequest(message);
+    expect(parsed.success).toBe(false);
+    expect(!parsed.success && parsed.error).toMatch(/version 1 is older .*rebuild the container image with \.\/container\/build\.sh/);
+  });
+
+  it('rejects requests from a newer schema', () => {
+    const parsed = parseIpcTaskRequest({ type: 'pause_task', taskId: 't', v: IPC_SCHEMA_VERSION + 1 });
+    expect(parsed.success).toBe(false);
+    expect(!parsed.success && parsed.error).toMatch(/newer than supported version/);
+  });
+});
+
+describe('request validation', () => {
+  const v = IPC_SCHEMA_VERSION;
+
+  it('rejects unknown request types and missing fields', () => {
+    expect(parseIpcTaskRequest({ type: 'format_disk', v }).success).toBe(false);
+    expect(parseIpcMessageRequest({ type: 'message', chatJid: 'tg:1', v }).success).toBe(false);
+  });
+
+  it('fills in defaults', () => {
+    const parsed = parseIpcTaskRequest({ type: 'schedule_task', prompt: 'p', schedule_text: 'daily', groupFolder: 'main', v });
+    expect(parsed).toMatchObject({ success: true, data: { context_mode: 'isolated' } });
+  });
+
+  it('needs either a schedule phrase or a type and value, not both', () => {
+    const request = { type: 'schedule_task', prompt: 'p', groupFolder: 'main', v };
+    expect(parseIpcTaskRequest({ ...request, schedule_type: 'interval', schedule_value: '60000' }).success).toBe(true);
+    expect(parseIpcTaskRequest({ ...request, schedule_type: 'interval' }).success).toBe(false);
+    expect(parseIpcTaskRequest({ ...request, schedule_text: 'daily', schedule_type: 'interval', schedule_value: '60000' }).success).toBe(false);
+  });
+
+  it('keeps the run ID that ties a request to its run', () => {
+    const parsed = parseIpcTaskRequest({ type: 'pause_task', taskId: 't', runId: 'run-1', v });
+    expect(parsed).toMatchObject({ success: true, data: { runId: 'run-1' } });
+  });
+});
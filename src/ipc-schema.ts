@@ -0,0 +1,303 @@
+/**
+ * IPC Schema for NanoClaw
+ * Shared by the host and the agent runner: every file written to ipc/{group}/messages
+ * or ipc/{group}/tasks must match one of these schemas.
+ *
+ * This file is the single source of truth. container/build.sh copies it into
+ * container/agent-runner/src/ before building the image, so only edit it here.
+ */
+
+import { z } from 'zod';
+
+// Bump when a change would break older containers or hosts
+// v2: schedule_text, quiet hours, failed deliveries, Telegram roles/expiry/limits
+// (role replaces read_only), telegram_unpair/list_paired, cancel_run, runId
+export const IPC_SCHEMA_VERSION = 2;
+
+// Oldest version the host still accepts: v1 containers may send fields v2 reads differently
+export const IPC_MIN_SCHEMA_VERSION = 2;
+
+const base = {
+  // Files from containers built before versioning have no "v"; treat them as v1
+  v: z.number().int().default(1),
+  timestamp: z.string().optional(),
+  // The run that wrote the request, as given to the container by the host; decides its role
+  runId: z.string().optional()
+};
+
+const taskRef = {
+  ...base,
+  taskId: z.string().min(1),
+  groupFolder: z.string().optional(),
+  isMain: z.boolean().optional()
+};
+
+// --- messages/ ---
+
+export const MessageRequestSchema = z.object({
+  ...base,
+  type: z.literal('message'),
+  chatJid: z.string().min(1),
+  text: z.string().min(1),
+  groupFolder: z.string().optional(),
+  // Deliver even during the chat's quiet hours
+  urgent: z.boolean().optional()
+});
+
+export const FileRequestSchema = z.object({
+  ...base,
+  type: z.literal('file'),
+  chatJid: z.string().min(1),
+  filePath: z.string().min(1),
+  caption: z.string().optional(),
+  groupFolder: z.string().optional()
+});
+
+export const IpcMessageRequestSchema = z.discriminatedUnion('type', [
+  MessageRequestSchema,
+  FileRequestSchema
+]);
+
+// --- tasks/ ---
+
+// after_task: schedule_value lists upstream task IDs, comma-separated
+const scheduleType = z.enum(['cron', 'interval', 'once', 'after_task']);
+const afterCondition = z.enum(['success', 'failure', 'always']);
+const notifyMode = z.enum(['always', 'on_change', 'on_error', 'never']);
+
+// Either a phrase for the host to parse, or an explicit type and value, but not both
+function hasOneSchedule(r: { schedule_text?: string; schedule_type?: string; schedule_value?: string }): boolean {
+  return r.schedule_text !== undefined
+    ? r.schedule_type === undefined && r.schedule_value === undefined
+    : r.schedule_type !== undefined && r.schedule_value !== undefined;
+}
+
+export const ScheduleTaskRequestSchema = z.object({
+  ...base,
+  type: z.literal('schedule_task'),
+  prompt: z.string().min(1),
+  schedule_type: scheduleType.optional(),
+  schedule_value: z.string().min(1).optional(),
+  // Natural-language alternative to schedule_type + schedule_value, parsed by the host
+  schedule_text: z.string().min(1).optional(),
+  context_mode: z.enum(['group', 'isolated']).default('isolated'),
+  groupFolder: z.string().min(1),
+  chatJid: z.string().optional(),
+  createdBy: z.string().optional(),
+  // Retry policy; the host applies its defaults when omitted
+  max_attempts: z.number().int().min(1).max(10).optional(),
+  retry_backoff_ms: z.number().int().min(1000).optional(),
+  // Handling of runs missed while the host was down
+  misfire_policy: z.enum(['run_once', 'skip', 'run_all']).optional(),
+  misfire_grace_ms: z.number().int().min(0).optional(),
+  after_condition: afterCondition.optional(),
+  notify_mode: notifyMode.optional(),
+  // IANA timezone for cron and once values; the host's TIMEZONE when omitted
+  timezone: z.string().min(1).optional(),
+  ends_at: z.string().min(1).optional(),
+  max_runs: z.number().int().positive().optional()
+}).refine(
+  hasOneSchedule,
+  'schedule_task needs either schedule_text or both schedule_type and schedule_value'
+);
+
+// Read-only: the host answers with the parsed schedule and its next fire times
+export const PreviewScheduleRequestSchema = z.object({
+  ...base,
+  type: z.literal('preview_schedule'),
+  schedule_text: z.string().min(1).optional(),
+  schedule_type: scheduleType.optional(),
+  schedule_value: z.string().min(1).optional(),
+  timezone: z.string().min(1).optional()
+}).refine(
+  hasOneSchedule,
+  'preview_schedule needs either schedule_text or both schedule_type and schedule_value'
+);
+
+export const PauseTaskRequestSchema = z.object({ ...taskRef, type: z.literal('pause_task') });
+export const ResumeTaskRequestSchema = z.object({ ...taskRef, type: z.literal('resume_task') });
+export const CancelTaskRequestSchema = z.object({ ...taskRef, type: z.literal('cancel_task') });
+
+export const UpdateTaskRequestSchema = z.object({
+  ...taskRef,
+  type: z.literal('update_task'),
+  prompt: z.string().min(1).optional(),
+  schedule_type: scheduleType.optional(),
+  schedule_value: z.string().min(1).optional(),
+  context_mode: z.enum(['group', 'isolated']).optional(),
+  after_condition: afterCondition.optional(),
+  notify_mode: notifyMode.optional(),
+  timezone: z.string().min(1).optional(),
+  // null clears the limit
+  ends_at: z.string().min(1).nullable().optional(),
+  max_runs: z.number().int().positive().nullable().optional()
+}).refine(
+  r => [
+    r.prompt, r.schedule_value, r.context_mode, r.after_condition, r.notify_mode, r.timezone, r.ends_at, r.max_runs
+  ].some(v => v !== undefined),
+  'update_task needs at least one field to change'
+).refine(
+  r => r.schedule_type === undefined || r.schedule_value !== undefined,
+  'schedule_type can only be changed together with schedule_value'
+);
+
+export const RegisterGroupRequestSchema = z.object({
+  ...base,
+  type: z.literal('register_group'),
+  jid: z.string().min(1),
+  name: z.string().min(1),
+  folder: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'folder must be lowercase letters, digits and hyphens'),
+  trigger: z.string().min(1),
+  containerConfig: z.object({
+    additionalMounts: z.array(z.object({
+      hostPath: z.string(),
+      containerPath: z.string(),
+      readonly: z.boolean().optional()
+    })).optional(),
+    timeout: z.number().int().positive().optional(),
+    env: z.record(z.string(), z.string()).optional()
+  }).optional()
+});
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'use 24-hour HH:MM');
+
+export const SetQuietHoursRequestSchema = z.object({
+  ...base,
+  type: z.literal('set_quiet_hours'),
+  chatJid: z.string().min(1),
+  // null turns quiet hours off for the chat
+  quiet_hours: z.object({
+    start: clockTime,
+    end: clockTime,
+    timezone: z.string().min(1).optional()
+  }).refine(q => q.start !== q.end, 'start and end must differ').nullable()
+});
+
+// Main only: dead-lettered outbound messages
+export const ListFailedDeliveriesRequestSchema = z.object({
+  ...base,
+  type: z.literal('list_failed_deliveries')
+});
+
+export const ResendFailedDeliveriesRequestSchema = z.object({
+  ...base,
+  type: z.literal('resend_failed_deliveries'),
+  // Outbox message IDs; omit to resend all of them
+  ids: z.array(z.number().int().positive()).min(1).optional()
+});
+
+export const CancelRunRequestSchema = z.object({
+  ...base,
+  type: z.literal('cancel_run'),
+  groupFolder: z.string().min(1)
+});
+
+// Telegram user IDs arrive as numbers from the MCP tools, but accept numeric strings too
+const telegramUserId = z.coerce.number().int().positive();
+
+// Must match TelegramRole on the host
+const telegramRole = z.enum(['owner', 'admin', 'member', 'guest']);
+
+export const TelegramApproveRequestSchema = z.object({
+  ...base,
+  type: z.literal('telegram_approve'),
+  userId: telegramUserId,
+  role: telegramRole.optional(),
+  expires_in_days: z.number().positive().optional(),
+  // Override the host's default daily limits for this user (0 = unlimited)
+  daily_runs: z.number().int().min(0).optional(),
+  daily_runtime_minutes: z.number().int().min(0).optional()
+});
+
+export const TelegramDenyRequestSchema = z.object({
+  ...base,
+  type: z.literal('telegram_deny'),
+  userId: telegramUserId
+});
+
+export const TelegramListPendingRequestSchema = z.object({
+  ...base,
+  type: z.literal('telegram_list_pending')
+});
+
+export const TelegramUnpairRequestSchema = z.object({
+  ...base,
+  type: z.literal('telegram_unpair'),
+  userId: telegramUserId
+});
+
+export const TelegramListPairedRequestSchema = z.object({
+  ...base,
+  type: z.literal('telegram_list_paired')
+});
+
+export const IpcTaskRequestSchema = z.discriminatedUnion('type', [
+  ScheduleTaskRequestSchema,
+  PauseTaskRequestSchema,
+  ResumeTaskRequestSchema,
+  CancelTaskRequestSchema,
+  UpdateTaskRequestSchema,
+  PreviewScheduleRequestSchema,
+  RegisterGroupRequestSchema,
+  SetQuietHoursRequestSchema,
+  ListFailedDeliveriesRequestSchema,
+  ResendFailedDeliveriesRequestSchema,
+  CancelRunRequestSchema,
+  TelegramApproveRequestSchema,
+  TelegramDenyRequestSchema,
+  TelegramListPendingRequestSchema,
+  TelegramUnpairRequestSchema,
+  TelegramListPairedRequestSchema
+]);
+
+export type IpcMessageRequest = z.infer<typeof IpcMessageRequestSchema>;
+export type IpcTaskRequest = z.infer<typeof IpcTaskRequestSchema>;
+
+// What callers build: version and timestamp are filled in when the file is written
+export type IpcMessageRequestInput = z.input<typeof IpcMessageRequestSchema>;
+export type IpcTaskRequestInput = z.input<typeof IpcTaskRequestSchema>;
+
+// --- responses/ ---
+
+export const IpcResponseSchema = z.object({
+  id: z.string(),
+  ok: z.boolean(),
+  message: z.string(),
+  timestamp: z.string()
+});
+
+export type IpcResponse = z.infer<typeof IpcResponseSchema>;
+
+export type IpcParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+function parseVersioned<T>(schema: z.ZodType<T>, raw: unknown): IpcParseResult<T> {
+  const version = (raw as { v?: unknown } | null)?.v ?? 1;
+  if (typeof version === 'number' && version > IPC_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: `IPC schema version ${version} is newer than supported version ${IPC_SCHEMA_VERSION}; rebuild the host or the container image`
+    };
+  }
+  if (typeof version === 'number' && version < IPC_MIN_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: `IPC schema version ${version} is older than the oldest supported version ${IPC_MIN_SCHEMA_VERSION}; rebuild the container image with ./container/build.sh`
+    };
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    return { success: false, error: z.prettifyError(result.error) };
+  }
+  return { success: true, data: result.data };
+}
+
+export function parseIpcMessageRequest(raw: unknown): IpcParseResult<IpcMessageRequest> {
+  return parseVersioned(IpcMessageRequestSchema, raw);
+}
+
+export function parseIpcTaskRequest(raw: unknown): IpcParseResult<IpcTaskRequest> {
+  return parseVersioned(IpcTaskRequestSchema, raw);
+}
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IPC_SCHEMA_VERSION } from './ipc-schema.js';
+import { IpcHandlers, startIpcWatcher } from './ipc-watcher.js';
+
+let ipcDir: string;
+let stop: (() => void) | null = null;
+
+beforeEach(() => {
+  ipcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-ipc-'));
+});
+
+afterEach(() => {
+  stop?.();
+  stop = null;
+  vi.restoreAllMocks();
+  fs.rmSync(ipcDir, { recursive: true, force: true });
+});
+
+function writeRequest(group: string, kind: 'messages' | 'tasks', name: string, body: object): string {
+  const dir = path.join(ipcDir, group, kind);
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, JSON.stringify({ v: IPC_SCHEMA_VERSION, ...body }));
+  return file;
+}
+
+function handlers(): IpcHandlers {
+  return {
+    message: vi.fn(async () => ({ ok: true, message: 'Message delivered' })),
+    task: vi.fn(async () => ({ ok: true, message: 'Task done' }))
+  };
+}
+
+async function waitForFile(file: string, timeoutMs = 4000): Promise<Record<string, unknown>> {
+  const deadline = Date.now() + timeoutMs;
+  while (!fs.existsSync(file)) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${file}`);
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+const message = { type: 'message', chatJid: 'tg:1', text: 'hello' };
+
+describe('startIpcWatcher', () => {
+  it('processes files left from before it started and acknowledges each under the same name', async () => {
+    const request = writeRequest('family', 'messages', '1-abc.json', message);
+    const h = handlers();
+    stop = startIpcWatcher(ipcDir, h);
+
+    const response = await waitForFile(path.join(ipcDir, 'family', 'responses', '1-abc.json'));
+    expect(response).toMatchObject({ id: '1-abc', ok: true, message: 'Message delivered' });
+    expect(h.message).toHaveBeenCalledWith(expect.objectContaining({ chatJid: 'tg:1', text: 'hello' }), 'family', false);
+    expect(fs.existsSync(request)).toBe(false);
+  });
+
+  it('routes task requests to the task handler and marks the main group', async () => {
+    writeRequest('main', 'tasks', '2-def.json', { type: 'pause_task', taskId: 'task-1' });
+    const h = handlers();
+    h.task = vi.fn(async () => ({ ok: false, message: 'Task task-1 not found' }));
+    stop = startIpcWatcher(ipcDir, h);
+
+    const response = await waitForFile(path.join(ipcDir, 'main', 'responses', '2-def.json'));
+    expect(response).toMatchObject({ ok: false, message: 'Task task-1 not found' });
+    expect(h.task).toHaveBeenCalledWith(expect.objectContaining({ type: 'pause_task', taskId: 'task-1' }), 'main', true);
+    expect(h.message).not.toHaveBeenCalled();
+  });
+
+  it('picks up new files by polling when fs.watch is unavailable', async () => {
+    vi.spyOn(fs, 'watch').mockImplementation(() => {
+      throw new Error('not supported');
+    });
+    const h = handlers();
+    stop = startIpcWatcher(ipcDir, h);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    writeRequest('family', 'messages', '3-ghi.json', message);
+    const response = await waitForFile(path.join(ipcDir, 'family', 'responses', '3-ghi.json'));
+    expect(response).toMatchObject({ ok: true });
+    expect(h.message).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores files that are not finished requests', async () => {
+    const dir = path.join(ipcDir, 'family', 'messages');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, '4-jkl.json.tmp'), '{');
+    const h = handlers();
+    stop = startIpcWatcher(ipcDir, h);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(h.message).not.toHaveBeenCalled();
+    expect(fs.existsSync(path.join(dir, '4-jkl.json.tmp'))).toBe(true);
+  });
+
+  it('quarantines requests that fail validation and says why', async () => {
+    const request = writeRequest('family', 'messages', '5-mno.json', { type: 'message', chatJid: 'tg:1' });
+    const h = handlers();
+    stop = startIpcWatcher(ipcDir, h);
+
+    const response = await waitForFile(path.join(ipcDir, 'family', 'responses', '5-mno.json'));
+    expect(response).toMatchObject({ ok: false });
+    expect(response.message).toMatch(/^Invalid request: /);
+    expect(h.message).not.toHaveBeenCalled();
+    expect(fs.existsSync(request)).toBe(false);
+    expect(fs.existsSync(path.join(ipcDir, 'errors', 'family-5-mno.json'))).toBe(true);
+    expect(fs.readFileSync(path.join(ipcDir, 'errors', 'family-5-mno.json.error.txt'), 'utf-8')).toMatch(/text/);
+  });
+
+  it('quarantines requests from an older schema version with a rebuild hint', async () => {
+    const dir = path.join(ipcDir, 'family', 'messages');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, '6-pqr.json'), JSON.stringify(message));
+    stop = startIpcWatcher(ipcDir, handlers());
+
+    const response = await waitForFile(path.join(ipcDir, 'family', 'responses', '6-pqr.json'));
+    expect(response).toMatchObject({ ok: false });
+    expect(response.message).toMatch(/rebuild the container image/);
+    expect(fs.existsSync(path.join(ipcDir, 'errors', 'family-6-pqr.json'))).toBe(true);
+  });
+
+  it('quarantines files that are not JSON', async () => {
+    const dir = path.join(ipcDir, 'family', 'tasks');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, '7-stu.json'), '{ not json');
+    stop = startIpcWatcher(ipcDir, handlers());
+
+    const response = await waitForFile(path.join(ipcDir, 'family', 'responses', '7-stu.json'));
+    expect(response).toMatchObject({ ok: false });
+    expect(response.message).toMatch(/^Host failed to process request: /);
+    expect(fs.existsSync(path.join(ipcDir, 'errors', 'family-7-stu.json'))).toBe(true);
+  });
+
+  it('quarantines requests whose handler throws', async () => {
+    writeRequest('family', 'tasks', '8-vwx.json', { type: 'pause_task', taskId: 'task-1' });
+    const h = handlers();
+    h.task = vi.fn(async () => {
+      throw new Error('database is locked');
+    });
+    stop = startIpcWatcher(ipcDir, h);
+
+    const response = await waitForFile(path.join(ipcDir, 'family', 'responses', '8-vwx.json'));
+    expect(response).toMatchObject({ ok: false, message: 'Host failed to process request: database is locked' });
+    expect(fs.readFileSync(path.join(ipcDir, 'errors', 'family-8-vwx.json.error.txt'), 'utf-8')).toMatch(/database is locked/);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * IPC watcher for NanoClaw
+ * Picks up request files containers write to ipc/{group}/messages and ipc/{group}/tasks,
+ * hands them to the host's handlers and acknowledges each one in ipc/{group}/responses.
+ * The group is taken from the directory, never from the file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { IPC_FALLBACK_POLL_INTERVAL, IPC_POLL_INTERVAL, MAIN_GROUP_FOLDER } from './config.js';
+import {
+  IpcMessageRequest,
+  IpcParseResult,
+  IpcResponse,
+  IpcTaskRequest,
+  parseIpcMessageRequest,
+  parseIpcTaskRequest
+} from './ipc-schema.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  transport: { target: 'pino-pretty', options: { colorize: true } }
+});
+
+// Outcome of an IPC request, written back to the container as an acknowledgement
+export type IpcResult = Pick<IpcResponse, 'ok' | 'message'>;
+
+export interface IpcHandlers {
+  message: (data: IpcMessageRequest, sourceGroup: string, isMain: boolean) => Promise<IpcResult>;
+  task: (data: IpcTaskRequest, sourceGroup: string, isMain: boolean) => Promise<IpcResult>;
+}
+
+/**
+ * Write the acknowledgement for a request file to the group's responses/ directory.
+ * The container polls for a file with the same name as its request.
+ */
+function writeIpcResponse(ipcBaseDir: string, sourceGroup: string, requestFile: string, result: IpcResult): void {
+  const responsesDir = path.join(ipcBaseDir, sourceGroup, 'responses');
+  try {
+    fs.mkdirSync(responsesDir, { recursive: true });
+    const responsePath = path.join(responsesDir, requestFile);
+    const tempPath = `${responsePath}.tmp`;
+    const response: IpcResponse = {
+      id: path.basename(requestFile, '.json'),
+      ...result,
+      timestamp: new Date().toISOString()
+    };
+    fs.writeFileSync(tempPath, JSON.stringify(response, null, 2));
+    fs.renameSync(tempPath, responsePath);
+  } catch (err) {
+    logger.error({ err, sourceGroup, requestFile }, 'Failed to write IPC response');
+  }
+}
+
+/**
+ * Move a bad request file to ipc/errors, with the reason written beside it.
+ */
+function quarantineIpcFile(ipcBaseDir: string, sourceGroup: string, filePath: string, reason: string): void {
+  const errorDir = path.join(ipcBaseDir, 'errors');
+  fs.mkdirSync(errorDir, { recursive: true });
+  const target = path.join(errorDir, `${sourceGroup}-${path.basename(filePath)}`);
+  fs.renameSync(filePath, target);
+  fs.writeFileSync(`${target}.error.txt`, `${new Date().toISOString()}\n${reason}\n`);
+}
+
+/**
+ * Watch ipcBaseDir and process request files as they appear. Files already there are
+ * processed straight away. Returns a function that stops watching.
+ */
+export function startIpcWatcher(ipcBaseDir: string, handlers: IpcHandlers): () => void {
+  fs.mkdirSync(ipcBaseDir, { recursive: true });
+
+  const processDir = async <T>(
+    dir: string,
+    sourceGroup: string,
+    parse: (raw: unknown) => IpcParseResult<T>,
+    handle: (data: T) => Promise<IpcResult>
+  ) => {
+    if (!fs.existsSync(dir)) return;
+    const files = fs.readdirSync(dir).filter(f => f.endsWith('.json'));
+    for (const file of files) {
+      const filePath = path.join(dir, file);
+      try {
+        const parsed = parse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+        if (!parsed.success) {
+          logger.warn({ file, sourceGroup, error: parsed.error }, 'Invalid IPC request quarantined');
+          quarantineIpcFile(ipcBaseDir, sourceGroup, filePath, parsed.error);
+          writeIpcResponse(ipcBaseDir, sourceGroup, file, { ok: false, message: `Invalid request: ${parsed.error}` });
+          continue;
+        }
+
+        const result = await handle(parsed.data);
+        fs.unlinkSync(filePath);
+        writeIpcResponse(ipcBaseDir, sourceGroup, file, result);
+      } catch (err) {
+        logger.error({ file, sourceGroup, err }, 'Error processing IPC file');
+        const reason = err instanceof Error ? err.message : String(err);
+        quarantineIpcFile(ipcBaseDir, sourceGroup, filePath, reason);
+        writeIpcResponse(ipcBaseDir, sourceGroup, file, {
+          ok: false,
+          message: `Host failed to process request: ${reason}`
+        });
+      }
+    }
+  };
+
+  const processIpcFiles = async () => {
+    // Scan all group IPC directories (identity determined by directory)
+    let groupFolders: string[];
+    try {
+      groupFolders = fs.readdirSync(ipcBaseDir).filter(f => {
+        const stat = fs.statSync(path.join(ipcBaseDir, f));
+        return stat.isDirectory() && f !== 'errors';
+      });
+    } catch (err) {
+      logger.error({ err }, 'Error reading IPC base directory');
+      return;
+    }
+
+    for (const sourceGroup of groupFolders) {
+      const isMain = sourceGroup === MAIN_GROUP_FOLDER;
+
+      // Process messages from this group's IPC directory
+      try {
+        await processDir(path.join(ipcBaseDir, sourceGroup, 'messages'), sourceGroup,
+          parseIpcMessageRequest, data => handlers.message(data, sourceGroup, isMain));
+      } catch (err) {
+        logger.error({ err, sourceGroup }, 'Error reading IPC messages directory');
+      }
+
+      // Process tasks from this group's IPC directory
+      try {
+        await processDir(path.join(ipcBaseDir, sourceGroup, 'tasks'), sourceGroup,
+          parseIpcTaskRequest, data => handlers.task(data, sourceGroup, isMain));
+      } catch (err) {
+        logger.error({ err, sourceGroup }, 'Error reading IPC tasks directory');
+      }
+    }
+  };
+
+  // Single-flight: events that arrive mid-scan trigger one more scan afterwards
+  let scanning = false;
+  let rescan = false;
+  const triggerScan = async () => {
+    if (scanning) {
+      rescan = true;
+      return;
+    }
+    scanning = true;
+    try {
+      do {
+        rescan = false;
+        await processIpcFiles();
+      } while (rescan);
+    } finally {
+      scanning = false;
+    }
+  };
+
+  // Event-driven pickup; the periodic sweep covers missed events (e.g. VM-backed mounts)
+  let pollInterval = IPC_FALLBACK_POLL_INTERVAL;
+  let watcher: fs.FSWatcher | null = null;
+  try {
+    watcher = fs.watch(ipcBaseDir, { recursive: true }, (_event, filename) => {
+      if (!filename || filename.endsWith('.json')) void triggerScan();
+    });
+    watcher.on('error', (err) => {
+      logger.warn({ err }, 'IPC fs.watch failed, falling back to polling');
+      watcher?.close();
+      watcher = null;
+      pollInterval = IPC_POLL_INTERVAL;
+    });
+  } catch (err) {
+    logger.warn({ err }, 'fs.watch unavailable, IPC falls back to polling');
+    pollInterval = IPC_POLL_INTERVAL;
+  }
+
+  let stopped = false;
+  let sweepTimer: NodeJS.Timeout | null = null;
+  const sweep = async () => {
+    await triggerScan();
+    if (!stopped) sweepTimer = setTimeout(sweep, pollInterval);
+  };
+  sweep();
+
+  logger.info({ pollInterval }, 'IPC watcher started (per-group namespaces)');
+
+  return () => {
+    stopped = true;
+    if (sweepTimer) clearTimeout(sweepTimer);
+    watcher?.close();
+  };
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxMessage } from './types.js';
+
+// The outbox table, in memory
+const outbox = vi.hoisted(() => ({ rows: [] as OutboxMessage[], nextId: 1 }));
+
+vi.mock('./db.js', () => ({
+  enqueueOutboxMessage: (chatJid: string, text: string, status: 'pending' | 'held', deliverAfter: string) => {
+    const id = outbox.nextId++;
+    outbox.rows.push({
+      id, chat_jid: chatJid, text, created_at: new Date().toISOString(), deliver_after: deliverAfter,
+      status, attempts: 0, last_error: null, sent_parts: 0
+    });
+    return id;
+  },
+  getOutboxMessage: (id: number) => outbox.rows.find(r => r.id === id),
+  getPendingOutboxMessages: (chatJid?: string) =>
+    outbox.rows.filter(r => r.status === 'pending' && (!chatJid || r.chat_jid === chatJid)),
+  getDueHeldMessages: () => [],
+  deleteOutboxMessage: (id: number) => {
+    outbox.rows = outbox.rows.filter(r => r.id !== id);
+  },
+  recordOutboxFailure: (
+    id: number,
+    update: { status: 'pending' | 'dead'; attempts: number; lastError: string; deliverAfter: string; sentParts: number }
+  ) => {
+    Object.assign(outbox.rows.find(r => r.id === id)!, {
+      status: update.status,
+      attempts: update.attempts,
+      last_error: update.lastError,
+      deliver_after: update.deliverAfter,
+      sent_parts: update.sentParts
+    });
+  },
+  replaceWithDigest: vi.fn()
+}));
+vi.mock('./quiet-hours.js', () => ({
+  loadQuietHours: () => ({}),
+  quietHoursEnd: () => null,
+  buildDigest: () => ''
+}));
+
+const { registerChannel } = await import('./channels.js');
+const { flushOutbox, queueMessage } = await import('./outbox.js');
+const { OUTBOX_MAX_ATTEMPTS, OUTBOX_RETRY_BACKOFF } = await import('./config.js');
+
+const send = vi.fn();
+const NOW = new Date('2026-03-02T10:00:00Z');
+
+function later(ms: number): string {
+  return new Date(NOW.getTime() + ms).toISOString();
+}
+
+// A day on, longer than any backoff, so every pending message is due again
+function advancePastBackoff(): void {
+  vi.setSystemTime(Date.now() + 86_400_000);
+}
+
+beforeAll(() => {
+  registerChannel({
+    name: 'test',
+    jidPrefix: 'test:',
+    capabilities: { maxMessageLength: 4000, markdown: false, files: false, editMessages: false, typing: false },
+    start: async () => {},
+    send,
+    folderForJid: () => null
+  });
+});
+
+beforeEach(() => {
+  outbox.rows = [];
+  send.mockReset().mockResolvedValue({ ok: true });
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('queueMessage', () => {
+  it('sends right away and removes the delivered message', async () => {
+    expect(await queueMessage('test:1', 'hello')).toEqual({ status: 'sent' });
+    expect(send).toHaveBeenCalledWith('test:1', 'hello', 0);
+    expect(outbox.rows).toEqual([]);
+  });
+
+  it('keeps a failed message for a retry after the first backoff', async () => {
+    send.mockResolvedValue({ ok: false, error: 'timeout' });
+    expect(await queueMessage('test:1', 'hello')).toEqual({ status: 'queued', error: 'timeout', retryAt: later(OUTBOX_RETRY_BACKOFF) });
+    expect(outbox.rows[0]).toMatchObject({ status: 'pending', attempts: 1, last_error: 'timeout' });
+  });
+
+  it('dead-letters errors that retrying cannot fix', async () => {
+    send.mockResolvedValue({ ok: false, error: '403: bot was blocked', permanent: true });
+    expect(await queueMessage('test:1', 'hello')).toEqual({ status: 'dead', error: '403: bot was blocked' });
+    expect(outbox.rows[0]).toMatchObject({ status: 'dead', attempts: 1 });
+  });
+
+  it('retries when the chat has no channel registered yet', async () => {
+    const outcome = await queueMessage('later:1', 'hello');
+    expect(outcome).toMatchObject({ status: 'queued', error: 'No channel handles later:1' });
+    expect(outbox.rows[0]).toMatchObject({ status: 'pending', attempts: 1 });
+  });
+
+  it('holds later messages to a chat behind one waiting for a retry', async () => {
+    send.mockResolvedValueOnce({ ok: false, error: 'timeout' });
+    await queueMessage('test:1', 'first');
+    expect(await queueMessage('test:1', 'second')).toEqual({ status: 'queued', error: null, retryAt: NOW.toISOString() });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    advancePastBackoff();
+    await flushOutbox();
+    expect(send.mock.calls.map(call => call[1])).toEqual(['first', 'first', 'second']);
+    expect(outbox.rows).toEqual([]);
+  });
+});
+
+describe('flushOutbox', () => {
+  it('doubles the backoff on each failed attempt', async () => {
+    send.mockResolvedValue({ ok: false, error: 'timeout' });
+    await queueMessage('test:1', 'hello');
+
+    advancePastBackoff();
+    await flushOutbox();
+    expect(outbox.rows[0]).toMatchObject({ attempts: 2, deliver_after: later(86_400_000 + 2 * OUTBOX_RETRY_BACKOFF) });
+
+    await flushOutbox();
+    expect(send).toHaveBeenCalledTimes(2);  // Not due yet
+  });
+
+  it('waits at least the rate-limit hint without using up an attempt', async () => {
+    send.mockResolvedValue({ ok: false, error: '429: Too Many Requests', retryAfterMs: 30_000 });
+    await queueMessage('test:1', 'hello');
+    expect(outbox.rows[0]).toMatchObject({ status: 'pending', attempts: 0, deliver_after: later(30_000) });
+  });
+
+  it('dead-letters a message once it runs out of attempts', async () => {
+    send.mockResolvedValue({ ok: false, error: 'timeout' });
+    await queueMessage('test:1', 'hello');
+    for (let attempt = 2; attempt <= OUTBOX_MAX_ATTEMPTS; attempt++) {
+      advancePastBackoff();
+      await flushOutbox();
+    }
+    expect(outbox.rows[0]).toMatchObject({ status: 'dead', attempts: OUTBOX_MAX_ATTEMPTS });
+
+    await flushOutbox();
+    expect(send).toHaveBeenCalledTimes(OUTBOX_MAX_ATTEMPTS);
+  });
+
+  it('resumes a partly delivered message after the chunks that went out', async () => {
+    send.mockResolvedValueOnce({ ok: false, error: 'timeout', sentParts: 2 });
+    await queueMessage('test:1', 'long message');
+    expect(outbox.rows[0]).toMatchObject({ sent_parts: 2 });
+
+    advancePastBackoff();
+    await flushOutbox();
+    expect(send).toHaveBeenLastCalledWith('test:1', 'long message', 2);
+    expect(outbox.rows).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Outbox for NanoClaw
+ * Outbound text is written to the outbox table before it is sent, so a channel outage or
+ * rate limit delays a message instead of losing it. A worker retries failures with backoff
+ * (honoring retry-after) and dead-letters messages that keep failing.
+ */
+
+import pino from 'pino';
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_POLL_INTERVAL,
+  OUTBOX_RETRY_BACKOFF,
+  OUTBOX_RETRY_MAX_DELAY,
+  TIMEZONE
+} from './config.js';
+import {
+  deleteOutboxMessage,
+  enqueueOutboxMessage,
+  getDueHeldMessages,
+  getOutboxMessage,
+  getPendingOutboxMessages,
+  recordOutboxFailure,
+  replaceWithDigest
+} from './db.js';
+import { sendToChannel, SendResult } from './channels.js';
+import { buildDigest, loadQuietHours, quietHoursEnd } from './quiet-hours.js';
+import { OutboxMessage } from './types.js';
+import { formatInZone } from './timezone.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  transport: { target: 'pino-pretty', options: { colorize: true } }
+});
+
+export type QueueOutcome =
+  | { status: 'sent' }
+  | { status: 'held'; until: string }
+  | { status: 'queued'; error: string | null; retryAt: string }
+  | { status: 'dead'; error: string | null };
+
+// Chats with a delivery in progress. Keeps each chat's messages in order and never sends one twice
+const busyChats = new Set<string>();
+
+function recordFailure(message: OutboxMessage, result: Extract<SendResult, { ok: false }>): 'pending' | 'dead' {
+  // Rate limits aren't the message's fault, so they don't use up attempts
+  const attempts = result.retryAfterMs !== undefined ? message.attempts : message.attempts + 1;
+  const status = result.permanent || attempts >= OUTBOX_MAX_ATTEMPTS ? 'dead' : 'pending';
+  const backoff = Math.min(OUTBOX_RETRY_BACKOFF * Math.pow(2, Math.max(attempts - 1, 0)), OUTBOX_RETRY_MAX_DELAY);
+  const delay = Math.max(result.retryAfterMs ?? 0, backoff);
+
+  recordOutboxFailure(message.id, {
+    status,
+    attempts,
+    lastError: result.error,
+    deliverAfter: new Date(Date.now() + delay).toISOString(),
+    sentParts: result.sentParts ?? message.sent_parts
+  });
+  if (status === 'dead') {
+    logger.error({ id: message.id, chatJid: message.chat_jid, attempts, error: result.error }, 'Outbound message dead-lettered');
+  } else {
+    logger.warn({ id: message.id, chatJid: message.chat_jid, attempts, delay, error: result.error }, 'Outbound message will be retried');
+  }
+  return status;
+}
+
+/**
+ * Send a chat's due pending messages in order. Stops at the first message that has to
+ * wait for a retry, so later messages never overtake it.
+ */
+async function deliverChat(chatJid: string): Promise<void> {
+  if (busyChats.has(chatJid)) return;
+  busyChats.add(chatJid);
+  try {
+    for (const message of getPendingOutboxMessages(chatJid)) {
+      if (message.deliver_after > new Date().toISOString()) break;
+
+      const result = await sendToChannel(chatJid, message.text, message.sent_parts);
+      if (result.ok) {
+        deleteOutboxMessage(message.id);
+        continue;
+      }
+      if (recordFailure(message, result) === 'pending') break;
+    }
+  } finally {
+    busyChats.delete(chatJid);
+  }
+}
+
+/**
+ * Queue a message for a chat and try to deliver it right away.
+ * Non-urgent messages are held while the chat is in quiet hours.
+ */
+export async function queueMessage(chatJid: string, text: string, urgent = false): Promise<QueueOutcome> {
+  const quietHours = urgent ? undefined : loadQuietHours()[chatJid];
+  const until = quietHours && quietHoursEnd(quietHours);
+  if (until) {
+    enqueueOutboxMessage(chatJid, text, 'held', until.toISOString());
+    logger.info({ chatJid, until: until.toISOString() }, 'Message held for quiet hours');
+    return { status: 'held', until: formatInZone(until, quietHours.timezone || TIMEZONE) };
+  }
+
+  const id = enqueueOutboxMessage(chatJid, text, 'pending', new Date().toISOString());
+  await deliverChat(chatJid);
+
+  const message = getOutboxMessage(id);
+  if (!message) return { status: 'sent' };
+  if (message.status === 'dead') return { status: 'dead', error: message.last_error };
+  // Still pending: it failed and waits for a retry, or an earlier message to the chat is still in flight
+  return { status: 'queued', error: message.last_error, retryAt: message.deliver_after };
+}
+
+/**
+ * Turn held messages whose quiet hours ended into one pending digest per chat.
+ */
+function releaseHeldMessages(): void {
+  const byChat = new Map<string, OutboxMessage[]>();
+  for (const message of getDueHeldMessages()) {
+    byChat.set(message.chat_jid, [...(byChat.get(message.chat_jid) ?? []), message]);
+  }
+
+  const quietHours = loadQuietHours();
+  for (const [chatJid, messages] of byChat) {
+    const tz = quietHours[chatJid]?.timezone || TIMEZONE;
+    replaceWithDigest(chatJid, messages.map(m => m.id), buildDigest(messages, tz));
+    logger.info({ chatJid, count: messages.length }, 'Quiet hours ended, digest queued');
+  }
+}
+
+/**
+ * Periodically release held messages and retry failed deliveries.
+ */
+export function startOutboxWorker(): void {
+  logger.info('Outbox worker started');
+
+  const loop = async () => {
+    try {
+      releaseHeldMessages();
+      await flushOutbox();
+    } catch (err) {
+      logger.error({ err }, 'Error in outbox worker');
+    }
+
+    setTimeout(loop, OUTBOX_POLL_INTERVAL);
+  };
+
+  loop();
+}
+
+/**
+ * Deliver every chat's due messages. Also used to send requeued messages without waiting for the next tick.
+ */
+export async function flushOutbox(): Promise<void> {
+  const chats = new Set(getPendingOutboxMessages().map(m => m.chat_jid));
+  for (const chatJid of chats) {
+    await deliverChat(chatJid);
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { quietHoursEnd } from './quiet-hours.js';
+
+describe('quietHoursEnd', () => {
+  const overnight = { start: '22:00', end: '07:00', timezone: 'UTC' };
+
+  it('ends the next morning when the window wraps past midnight', () => {
+    expect(quietHoursEnd(overnight, new Date('2026-03-02T23:30:00Z'))?.toISOString()).toBe('2026-03-03T07:00:00.000Z');
+    expect(quietHoursEnd(overnight, new Date('2026-03-02T22:00:00Z'))?.toISOString()).toBe('2026-03-03T07:00:00.000Z');
+  });
+
+  it('ends the same morning after midnight', () => {
+    expect(quietHoursEnd(overnight, new Date('2026-03-03T03:00:00Z'))?.toISOString()).toBe('2026-03-03T07:00:00.000Z');
+  });
+
+  it('is null outside the window, including at its end', () => {
+    expect(quietHoursEnd(overnight, new Date('2026-03-03T12:00:00Z'))).toBeNull();
+    expect(quietHoursEnd(overnight, new Date('2026-03-03T07:00:00Z'))).toBeNull();
+    expect(quietHoursEnd(overnight, new Date('2026-03-02T21:59:00Z'))).toBeNull();
+  });
+
+  it('handles windows within one day', () => {
+    const lunch = { start: '13:00', end: '14:00', timezone: 'UTC' };
+    expect(quietHoursEnd(lunch, new Date('2026-03-02T13:30:00Z'))?.toISOString()).toBe('2026-03-02T14:00:00.000Z');
+    expect(quietHoursEnd(lunch, new Date('2026-03-02T14:30:00Z'))).toBeNull();
+  });
+
+  it('reads the window in its own timezone', () => {
+    const berlin = { ...overnight, timezone: 'Europe/Berlin' };
+    // 22:30 in Berlin (UTC+1)
+    expect(quietHoursEnd(berlin, new Date('2026-03-02T21:30:00Z'))?.toISOString()).toBe('2026-03-03T06:00:00.000Z');
+    // 21:30 in Berlin: not quiet yet
+    expect(quietHoursEnd(berlin, new Date('2026-03-02T20:30:00Z'))).toBeNull();
+  });
+
+  it('ends at the local time across a daylight saving change', () => {
+    const berlin = { ...overnight, timezone: 'Europe/Berlin' };
+    // 23:00 CET on 2026-03-28; the clocks go forward before 07:00, which is then 05:00 UTC
+    expect(quietHoursEnd(berlin, new Date('2026-03-28T22:00:00Z'))?.toISOString()).toBe('2026-03-29T05:00:00.000Z');
+  });
+});
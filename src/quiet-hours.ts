@@ -0,0 +1,71 @@
+/**
+ * Quiet hours for NanoClaw
+ * Non-urgent outbound messages to a chat in its do-not-disturb window are held in the
+ * outbox (see outbox.ts) and delivered as one digest when the window ends
+ */
+
+import pino from 'pino';
+import path from 'path';
+import { DATA_DIR, TIMEZONE } from './config.js';
+import { OutboxMessage, QuietHours } from './types.js';
+import { loadJson, saveJson } from './utils.js';
+import { formatInZone, parseTimestampInZone, wallClockIn } from './timezone.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  transport: { target: 'pino-pretty', options: { colorize: true } }
+});
+
+const QUIET_HOURS_PATH = path.join(DATA_DIR, 'quiet_hours.json');
+
+export function loadQuietHours(): Record<string, QuietHours> {
+  return loadJson(QUIET_HOURS_PATH, {});
+}
+
+export function setQuietHours(chatJid: string, quietHours: QuietHours | null): void {
+  const all = loadQuietHours();
+  if (quietHours) {
+    all[chatJid] = quietHours;
+  } else {
+    delete all[chatJid];
+  }
+  saveJson(QUIET_HOURS_PATH, all);
+  logger.info({ chatJid, quietHours }, 'Quiet hours updated');
+}
+
+function minutesOf(clock: string): number {
+  const [hour, minute] = clock.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * When the quiet window `now` falls in ends, or null if `now` is outside it.
+ */
+export function quietHoursEnd(quietHours: QuietHours, now: Date = new Date()): Date | null {
+  const tz = quietHours.timezone || TIMEZONE;
+  const wall = wallClockIn(now, tz);
+  const current = wall.hour * 60 + wall.minute;
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+
+  // A window like 22:00-07:00 wraps past midnight
+  const wraps = start > end;
+  const inWindow = wraps ? current >= start || current < end : current >= start && current < end;
+  if (!inWindow) return null;
+
+  // Before midnight in a wrapping window, it ends tomorrow
+  const daysAhead = wraps && current >= start ? 1 : 0;
+  const endDate = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + daysAhead));
+  return parseTimestampInZone(`${endDate.toISOString().slice(0, 10)}T${quietHours.end}:00`, tz);
+}
+
+/**
+ * One message summarizing everything held for a chat, each entry stamped with when it was written.
+ */
+export function buildDigest(messages: OutboxMessage[], tz: string): string {
+  const entries = messages.map(m => `[${formatInZone(new Date(m.created_at), tz)}] ${m.text}`);
+  const header = messages.length === 1
+    ? '1 message held during quiet hours:'
+    : `${messages.length} messages held during quiet hours:`;
+  return [header, ...entries].join('\n\n');
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRequestRole, lowerRole, registerRun, releaseRun, roleAtLeast } from './roles.js';
+
+describe('roleAtLeast', () => {
+  it('ranks owner > admin > member > guest', () => {
+    expect(roleAtLeast('owner', 'admin')).toBe(true);
+    expect(roleAtLeast('admin', 'admin')).toBe(true);
+    expect(roleAtLeast('member', 'admin')).toBe(false);
+    expect(roleAtLeast('guest', 'member')).toBe(false);
+  });
+
+  it('lets runs with no Telegram user through', () => {
+    expect(roleAtLeast(undefined, 'owner')).toBe(true);
+  });
+});
+
+describe('lowerRole', () => {
+  it('picks the less trusted role', () => {
+    expect(lowerRole('owner', 'member')).toBe('member');
+    expect(lowerRole('guest', 'admin')).toBe('guest');
+  });
+});
+
+describe('getRequestRole', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('gives a request the role of the run that wrote it', () => {
+    const ownerRun = registerRun('main', 'owner');
+    const memberRun = registerRun('main', 'member');
+    expect(getRequestRole(ownerRun, 'main')).toBe('owner');
+    expect(getRequestRole(memberRun, 'main')).toBe('member');
+  });
+
+  it('leaves runs with no Telegram user unrestricted', () => {
+    const runId = registerRun('main', undefined);
+    expect(getRequestRole(runId, 'main')).toBeUndefined();
+  });
+
+  it('treats requests without a known run of the group as a guest', () => {
+    const runId = registerRun('main', 'owner');
+    expect(getRequestRole(undefined, 'main')).toBe('guest');
+    expect(getRequestRole('made-up', 'main')).toBe('guest');
+    // Another group's container can't borrow the run ID
+    expect(getRequestRole(runId, 'family')).toBe('guest');
+  });
+
+  it('issues unguessable IDs', () => {
+    const a = registerRun('main', 'owner');
+    const b = registerRun('main', 'owner');
+    expect(a).not.toBe(b);
+    expect(a).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('keeps a finished run for its late requests, then forgets it', () => {
+    const runId = registerRun('main', 'admin');
+    releaseRun(runId);
+    vi.advanceTimersByTime(30_000);
+    expect(getRequestRole(runId, 'main')).toBe('admin');
+    vi.advanceTimersByTime(60_000);
+    expect(getRequestRole(runId, 'main')).toBe('guest');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Roles for NanoClaw
+ * Paired Telegram users carry a role that limits what runs on their behalf may do:
+ * owner > admin > member > guest. Each container run gets an unguessable run ID from the
+ * host, which its agent runner stamps on every IPC request, so a request is checked against
+ * the role of the run that wrote it, not just against isMain.
+ */
+
+import crypto from 'crypto';
+import { TelegramRole } from './types.js';
+
+const RANK: Record<TelegramRole, number> = { guest: 0, member: 1, admin: 2, owner: 3 };
+
+/**
+ * Whether `role` is `min` or higher. Undefined means the host started the run for no Telegram
+ * user (e.g. a scheduled task created outside Telegram), so it's limited by isMain alone.
+ * Only getRequestRole decides that for IPC requests.
+ */
+export function roleAtLeast(role: TelegramRole | undefined, min: TelegramRole): boolean {
+  return role === undefined || RANK[role] >= RANK[min];
+}
+
+// The least trusted of two roles; a run on behalf of several users gets what all of them may do
+export function lowerRole(a: TelegramRole, b: TelegramRole): TelegramRole {
+  return RANK[a] <= RANK[b] ? a : b;
+}
+
+// Kept a while after the run ends, since its last IPC files may be processed after the container exits
+const RUN_RELEASE_DELAY = 60_000;
+
+const runs = new Map<string, { groupFolder: string; role: TelegramRole | undefined }>();
+
+/**
+ * Register a run about to start and return its ID, to be passed to the container.
+ */
+export function registerRun(groupFolder: string, role: TelegramRole | undefined): string {
+  const runId = crypto.randomUUID();
+  runs.set(runId, { groupFolder, role });
+  return runId;
+}
+
+export function releaseRun(runId: string): void {
+  setTimeout(() => runs.delete(runId), RUN_RELEASE_DELAY).unref();
+}
+
+/**
+ * Role an IPC request from sourceGroup runs with. A request that can't be tied to a live run
+ * of that group (no run ID, an unknown one, or another group's) gets the least access.
+ */
+export function getRequestRole(runId: string | undefined, sourceGroup: string): TelegramRole | undefined {
+  const run = runId ? runs.get(runId) : undefined;
+  return run && run.groupFolder === sourceGroup ? run.role : 'guest';
+}
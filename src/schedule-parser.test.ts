@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { parseScheduleText, previewSchedule } from './schedule-parser.js';
+
+// A Monday
+const NOW = new Date('2026-03-02T10:00:00Z');
+
+describe('parseScheduleText', () => {
+  it('reads recurring day phrases as cron', () => {
+    expect(parseScheduleText('every weekday at 9:30am', NOW, 'UTC')).toEqual({
+      schedule_type: 'cron',
+      schedule_value: '30 9 * * 1-5',
+      description: 'weekdays at 09:30'
+    });
+    expect(parseScheduleText('Daily', NOW, 'UTC')).toMatchObject({ schedule_value: '0 9 * * *' });
+    expect(parseScheduleText('weekends at noon', NOW, 'UTC')).toMatchObject({ schedule_value: '0 12 * * 0,6' });
+  });
+
+  it('reads "weekly" as every week on today\'s weekday', () => {
+    expect(parseScheduleText('weekly', NOW, 'UTC')).toEqual({
+      schedule_type: 'cron',
+      schedule_value: '0 9 * * 1',
+      description: 'every Monday at 09:00'
+    });
+    expect(parseScheduleText('every week at 6pm', NOW, 'UTC')).toMatchObject({ schedule_value: '0 18 * * 1' });
+    // Already Tuesday in Tokyo
+    expect(parseScheduleText('weekly', new Date('2026-03-02T20:00:00Z'), 'Asia/Tokyo')).toMatchObject({ schedule_value: '0 9 * * 2' });
+  });
+
+  it('reads lists of days', () => {
+    expect(parseScheduleText('every mon, wed and fri at 7pm', NOW, 'UTC')).toEqual({
+      schedule_type: 'cron',
+      schedule_value: '0 19 * * 1,3,5',
+      description: 'every Monday, Wednesday, Friday at 19:00'
+    });
+  });
+
+  it('reads days of the month', () => {
+    expect(parseScheduleText('first monday of the month at 10', NOW, 'UTC')).toMatchObject({ schedule_value: '0 10 * * 1#1' });
+    expect(parseScheduleText('last friday of every month at 5pm', NOW, 'UTC')).toMatchObject({ schedule_value: '0 17 * * 5L' });
+    expect(parseScheduleText('last day of the month at 5pm', NOW, 'UTC')).toMatchObject({ schedule_value: '0 17 L * *' });
+    expect(parseScheduleText('on the 15th of every month', NOW, 'UTC')).toMatchObject({ schedule_value: '0 9 15 * *' });
+    expect(parseScheduleText('on the 32nd', NOW, 'UTC')).toEqual({ error: 'There is no day 32 in a month' });
+  });
+
+  it('reads intervals', () => {
+    expect(parseScheduleText('every 2 hours', NOW, 'UTC')).toEqual({
+      schedule_type: 'interval',
+      schedule_value: '7200000',
+      description: 'every 2 hours'
+    });
+    expect(parseScheduleText('hourly', NOW, 'UTC')).toMatchObject({ schedule_value: '3600000' });
+    expect(parseScheduleText('every other day', NOW, 'UTC')).toEqual({
+      schedule_type: 'interval',
+      schedule_value: '172800000',
+      description: 'every 2 days'
+    });
+    expect(parseScheduleText('every 0 minutes', NOW, 'UTC')).toEqual({ error: 'The interval must be positive' });
+  });
+
+  it('reads relative delays from now', () => {
+    expect(parseScheduleText('in 20 minutes', NOW, 'UTC')).toEqual({
+      schedule_type: 'once',
+      schedule_value: '2026-03-02T10:20:00.000Z',
+      description: 'once, in 20 minutes'
+    });
+    expect(parseScheduleText('in an hour', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-03-02T11:00:00.000Z' });
+  });
+
+  it('reads one-off times as wall-clock values in the timezone', () => {
+    expect(parseScheduleText('tomorrow at 8am', NOW, 'Europe/Berlin')).toEqual({
+      schedule_type: 'once',
+      schedule_value: '2026-03-03T08:00:00',
+      description: 'once, tomorrow at 08:00'
+    });
+    expect(parseScheduleText('today at 5pm', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-03-02T17:00:00' });
+    expect(parseScheduleText('on 2026-04-01 at 14:00', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-04-01T14:00:00' });
+  });
+
+  it('reads "tonight" as this evening', () => {
+    expect(parseScheduleText('tonight', NOW, 'UTC')).toEqual({
+      schedule_type: 'once',
+      schedule_value: '2026-03-02T20:00:00',
+      description: 'once, today at 20:00'
+    });
+    expect(parseScheduleText('tonight at 8', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-03-02T20:00:00' });
+    expect(parseScheduleText('tonight at 10:30pm', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-03-02T22:30:00' });
+  });
+
+  it('moves a bare time that has passed to tomorrow', () => {
+    expect(parseScheduleText('at 7am', NOW, 'UTC')).toEqual({
+      schedule_type: 'once',
+      schedule_value: '2026-03-03T07:00:00',
+      description: 'once, tomorrow at 07:00'
+    });
+  });
+
+  it('picks the next such weekday whose time is still ahead', () => {
+    expect(parseScheduleText('next monday at 8', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-03-09T08:00:00' });
+    expect(parseScheduleText('monday at 11', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-03-02T11:00:00' });
+    expect(parseScheduleText('thursday', NOW, 'UTC')).toMatchObject({ schedule_value: '2026-03-05T09:00:00' });
+    // "on <day>" means every week
+    expect(parseScheduleText('on thursday', NOW, 'UTC')).toMatchObject({ schedule_type: 'cron', schedule_value: '0 9 * * 4' });
+  });
+
+  it('rejects times in the past and times it cannot read', () => {
+    expect(parseScheduleText('today at 7am', NOW, 'UTC')).toEqual({ error: '07:00 today has already passed' });
+    expect(parseScheduleText('2026-01-01 at 9', NOW, 'UTC')).toEqual({ error: '2026-01-01 09:00 is in the past' });
+    expect(parseScheduleText('at 13pm', NOW, 'UTC')).toEqual({ error: `Can't read the time "13pm"` });
+    expect(parseScheduleText('2026-02-30 at 9', NOW, 'UTC')).toEqual({ error: 'Invalid date "2026-02-30"' });
+  });
+
+  it('explains what it understands when a phrase is not recognized', () => {
+    const parsed = parseScheduleText('whenever you like', NOW, 'UTC');
+    expect(parsed).toHaveProperty('error');
+    expect((parsed as { error: string }).error).toMatch(/^Couldn't understand "whenever you like"/);
+  });
+});
+
+describe('previewSchedule', () => {
+  it('lists cron fire times in the timezone', () => {
+    expect(previewSchedule('cron', '0 9 * * 1-5', 'Europe/Berlin', NOW, 3)).toEqual([
+      '2026-03-03T08:00:00.000Z',
+      '2026-03-04T08:00:00.000Z',
+      '2026-03-05T08:00:00.000Z'
+    ]);
+  });
+
+  it('follows daylight saving time changes', () => {
+    // Berlin moves to UTC+2 on 2026-03-29
+    expect(previewSchedule('cron', '0 9 * * *', 'Europe/Berlin', new Date('2026-03-28T12:00:00Z'), 2)).toEqual([
+      '2026-03-29T07:00:00.000Z',
+      '2026-03-30T07:00:00.000Z'
+    ]);
+  });
+
+  it('lists interval fire times from now', () => {
+    expect(previewSchedule('interval', '3600000', 'UTC', NOW, 2)).toEqual([
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-02T12:00:00.000Z'
+    ]);
+  });
+
+  it('gives the single time of a once schedule', () => {
+    expect(previewSchedule('once', '2026-03-03T08:00:00', 'Europe/Berlin', NOW)).toEqual(['2026-03-03T07:00:00.000Z']);
+  });
+
+  it('has nothing to preview for after_task schedules', () => {
+    expect(previewSchedule('after_task', 'task-1', 'UTC', NOW)).toEqual([]);
+  });
+});
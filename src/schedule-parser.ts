@@ -0,0 +1,312 @@
+/**
+ * Natural-language schedules for NanoClaw
+ * Deterministically turns phrases like "every weekday at 9", "in 20 minutes" or
+ * "first Monday of the month" into a cron, interval or once schedule, and previews fire times
+ */
+
+import { CronExpressionParser } from 'cron-parser';
+import { ScheduledTask } from './types.js';
+import { formatInZone, parseTimestampInZone, wallClockIn } from './timezone.js';
+
+export interface ParsedSchedule {
+  schedule_type: 'cron' | 'interval' | 'once';
+  schedule_value: string;
+  // Normalized reading of the phrase, e.g. "weekdays at 09:00"
+  description: string;
+}
+
+// Time of day used when a phrase names days but no time
+const DEFAULT_HOUR = 9;
+// Time of day for a bare "tonight"
+const EVENING_HOUR = 20;
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6
+};
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const UNIT_MS: Record<string, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000
+};
+const UNIT_ALIASES: Record<string, string> = { min: 'minute', mins: 'minute', hr: 'hour', hrs: 'hour' };
+
+const ORDINALS: Record<string, number> = { first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4 };
+
+const TIME = '(noon|midnight|\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?)';
+const AT_TIME = `(?:\\s+at\\s+${TIME})?`;
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+function parseTime(text: string | undefined, defaultHour = DEFAULT_HOUR): TimeOfDay | null {
+  if (!text) return { hour: defaultHour, minute: 0 };
+  if (text === 'noon') return { hour: 12, minute: 0 };
+  if (text === 'midnight') return { hour: 0, minute: 0 };
+
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(text);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const meridiem = match[3];
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+function formatTime(time: TimeOfDay): string {
+  return `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}`;
+}
+
+function parseDay(word: string): number | undefined {
+  return DAY_NAMES[word] ?? DAY_NAMES[word.replace(/s$/, '')];
+}
+
+function parseUnit(word: string): string | undefined {
+  const singular = UNIT_ALIASES[word] ?? word.replace(/s$/, '');
+  return UNIT_MS[singular] ? singular : undefined;
+}
+
+// Wall-clock timestamp `daysAhead` days after today in `tz`, as a once value
+function wallClockValue(now: Date, tz: string, daysAhead: number, time: TimeOfDay): string {
+  const today = wallClockIn(now, tz);
+  const date = new Date(Date.UTC(today.year, today.month - 1, today.day + daysAhead));
+  return `${date.toISOString().slice(0, 10)}T${formatTime(time)}:00`;
+}
+
+function isFuture(value: string, now: Date, tz: string): boolean {
+  const at = parseTimestampInZone(value, tz);
+  return !!at && at.getTime() > now.getTime();
+}
+
+/**
+ * Parse a schedule phrase. Times are read in `tz`; `now` anchors relative phrases.
+ */
+export function parseScheduleText(text: string, now: Date, tz: string): ParsedSchedule | { error: string } {
+  const phrase = text.toLowerCase().trim().replace(/[.!]+$/, '').replace(/\s+/g, ' ');
+  let match: RegExpExecArray | null;
+
+  // "in 20 minutes", "in an hour"
+  if ((match = /^in (\d+|a|an|one) (\w+)$/.exec(phrase))) {
+    const unit = parseUnit(match[2]);
+    if (!unit) return { error: `Unknown unit "${match[2]}"` };
+    const count = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+    if (count <= 0) return { error: 'The delay must be positive' };
+    const at = new Date(now.getTime() + count * UNIT_MS[unit]);
+    return {
+      schedule_type: 'once',
+      schedule_value: at.toISOString(),
+      description: `once, in ${count} ${unit}${count === 1 ? '' : 's'}`
+    };
+  }
+
+  // "every 20 minutes", "every hour", "hourly", "every 2 days", "every other day"
+  if (phrase === 'hourly') {
+    return { schedule_type: 'interval', schedule_value: String(UNIT_MS.hour), description: 'every hour' };
+  }
+  if ((match = /^every other (minute|hour|day|week)$/.exec(phrase))) {
+    return { schedule_type: 'interval', schedule_value: String(2 * UNIT_MS[match[1]]), description: `every 2 ${match[1]}s` };
+  }
+  if ((match = /^every (?:(\d+) )?(minutes?|mins?|hours?|hrs?|days|weeks)$/.exec(phrase))) {
+    const unit = parseUnit(match[2])!;
+    const count = Number(match[1] ?? 1);
+    if (count <= 0) return { error: 'The interval must be positive' };
+    return {
+      schedule_type: 'interval',
+      schedule_value: String(count * UNIT_MS[unit]),
+      description: count === 1 ? `every ${unit}` : `every ${count} ${unit}s`
+    };
+  }
+
+  // "every day at 9", "daily", "every weekday at 9:30am", "weekends at noon"
+  const dayPatterns: Array<[RegExp, string, string]> = [
+    [/^(?:every day|daily|each day)/, '*', 'every day'],
+    [/^(?:every weekday|weekdays|on weekdays|every work ?day)/, '1-5', 'weekdays'],
+    [/^(?:every weekend|weekends|on weekends)/, '0,6', 'weekends']
+  ];
+  for (const [pattern, dow, label] of dayPatterns) {
+    match = new RegExp(`${pattern.source}${AT_TIME}$`).exec(phrase);
+    if (match) {
+      const time = parseTime(match[1]);
+      if (!time) return { error: `Can't read the time "${match[1]}"` };
+      return {
+        schedule_type: 'cron',
+        schedule_value: `${time.minute} ${time.hour} * * ${dow}`,
+        description: `${label} at ${formatTime(time)}`
+      };
+    }
+  }
+
+  // "weekly", "every week at 10": on today's weekday
+  if ((match = new RegExp(`^(?:weekly|every week|each week)${AT_TIME}$`).exec(phrase))) {
+    const time = parseTime(match[1]);
+    if (!time) return { error: `Can't read the time "${match[1]}"` };
+    const day = wallClockIn(now, tz).weekday;
+    return {
+      schedule_type: 'cron',
+      schedule_value: `${time.minute} ${time.hour} * * ${day}`,
+      description: `every ${DAY_LABELS[day]} at ${formatTime(time)}`
+    };
+  }
+
+  // "every monday at 8", "every mon, wed and fri at 7pm"
+  if ((match = new RegExp(`^(?:every|on) ([a-z, &]+?)${AT_TIME}$`).exec(phrase))) {
+    const words = match[1].split(/\s*(?:,|&|\band\b)\s*/).filter(Boolean);
+    const days = words.map(parseDay);
+    if (days.length > 0 && days.every(d => d !== undefined)) {
+      const time = parseTime(match[2]);
+      if (!time) return { error: `Can't read the time "${match[2]}"` };
+      const unique = [...new Set(days as number[])].sort((a, b) => a - b);
+      return {
+        schedule_type: 'cron',
+        schedule_value: `${time.minute} ${time.hour} * * ${unique.join(',')}`,
+        description: `every ${unique.map(d => DAY_LABELS[d]).join(', ')} at ${formatTime(time)}`
+      };
+    }
+  }
+
+  // "first monday of the month", "last friday of every month at 5pm"
+  if ((match = new RegExp(`^(?:every |on the |the )?(first|second|third|fourth|1st|2nd|3rd|4th|last) ([a-z]+) of (?:the|every|each) month${AT_TIME}$`).exec(phrase))) {
+    const time = parseTime(match[3]);
+    if (!time) return { error: `Can't read the time "${match[3]}"` };
+
+    if (match[2] === 'day') {
+      if (match[1] !== 'last' && match[1] !== 'first' && match[1] !== '1st') {
+        return { error: 'Use "on the 2nd of the month" for specific days of the month' };
+      }
+      const dom = match[1] === 'last' ? 'L' : '1';
+      return {
+        schedule_type: 'cron',
+        schedule_value: `${time.minute} ${time.hour} ${dom} * *`,
+        description: `${match[1] === 'last' ? 'last' : 'first'} day of every month at ${formatTime(time)}`
+      };
+    }
+
+    const day = parseDay(match[2]);
+    if (day === undefined) return { error: `Unknown day "${match[2]}"` };
+    const dow = match[1] === 'last' ? `${day}L` : `${day}#${ORDINALS[match[1]]}`;
+    return {
+      schedule_type: 'cron',
+      schedule_value: `${time.minute} ${time.hour} * * ${dow}`,
+      description: `${match[1]} ${DAY_LABELS[day]} of every month at ${formatTime(time)}`
+    };
+  }
+
+  // "on the 15th of every month", "monthly on the 1st at 8"
+  if ((match = new RegExp(`^(?:every month on the|monthly on the|on the|the) (\\d{1,2})(?:st|nd|rd|th)?(?: of (?:the|every|each) month)?${AT_TIME}$`).exec(phrase))) {
+    const dom = Number(match[1]);
+    if (dom < 1 || dom > 31) return { error: `There is no day ${dom} in a month` };
+    const time = parseTime(match[2]);
+    if (!time) return { error: `Can't read the time "${match[2]}"` };
+    return {
+      schedule_type: 'cron',
+      schedule_value: `${time.minute} ${time.hour} ${dom} * *`,
+      description: `day ${dom} of every month at ${formatTime(time)}`
+    };
+  }
+
+  // "tomorrow at 9", "today at 5pm", "next monday at 8", "on 2026-03-01 at 14:00", "at 5pm"
+  if ((match = new RegExp(`^(?:on )?(\\d{4}-\\d{2}-\\d{2})${AT_TIME}$`).exec(phrase))) {
+    const time = parseTime(match[2]);
+    if (!time) return { error: `Can't read the time "${match[2]}"` };
+    const value = `${match[1]}T${formatTime(time)}:00`;
+    if (!parseTimestampInZone(value, tz)) return { error: `Invalid date "${match[1]}"` };
+    if (!isFuture(value, now, tz)) return { error: `${match[1]} ${formatTime(time)} is in the past` };
+    return { schedule_type: 'once', schedule_value: value, description: `once, ${match[1]} at ${formatTime(time)}` };
+  }
+  if ((match = new RegExp(`^(today|tonight|tomorrow|(?:next |on |this )?[a-z]+)${AT_TIME}$`).exec(phrase)) ||
+      (match = new RegExp(`^()at ${TIME}$`).exec(phrase))) {
+    const dayWord = match[1];
+    const time = parseTime(match[2], dayWord === 'tonight' ? EVENING_HOUR : DEFAULT_HOUR);
+    if (!time) return { error: `Can't read the time "${match[2]}"` };
+    // "tonight at 8" means 20:00
+    if (dayWord === 'tonight' && match[2] && !/am|pm/.test(match[2]) && time.hour >= 1 && time.hour < 12) {
+      time.hour += 12;
+    }
+
+    if (dayWord === '' || dayWord === 'today' || dayWord === 'tonight') {
+      const today = wallClockValue(now, tz, 0, time);
+      // A bare "at 7am" that has already passed means tomorrow
+      if (isFuture(today, now, tz)) {
+        return { schedule_type: 'once', schedule_value: today, description: `once, today at ${formatTime(time)}` };
+      }
+      if (dayWord !== '') return { error: `${formatTime(time)} today has already passed` };
+      return {
+        schedule_type: 'once',
+        schedule_value: wallClockValue(now, tz, 1, time),
+        description: `once, tomorrow at ${formatTime(time)}`
+      };
+    }
+    if (dayWord === 'tomorrow') {
+      return {
+        schedule_type: 'once',
+        schedule_value: wallClockValue(now, tz, 1, time),
+        description: `once, tomorrow at ${formatTime(time)}`
+      };
+    }
+
+    const day = parseDay(dayWord.replace(/^(?:next|on|this) /, ''));
+    if (day !== undefined) {
+      // The nearest such day whose time is still ahead
+      const todayWeekday = wallClockIn(now, tz).weekday;
+      let ahead = (day - todayWeekday + 7) % 7;
+      if (!isFuture(wallClockValue(now, tz, ahead, time), now, tz)) ahead += 7;
+      return {
+        schedule_type: 'once',
+        schedule_value: wallClockValue(now, tz, ahead, time),
+        description: `once, ${DAY_LABELS[day]} at ${formatTime(time)}`
+      };
+    }
+  }
+
+  return {
+    error: `Couldn't understand "${text}". Try phrases like "every weekday at 9", "every monday and thursday at 18:30", ` +
+      `"in 20 minutes", "tomorrow at 8am", "first monday of the month at 10" or "every 2 hours".`
+  };
+}
+
+/**
+ * Upcoming fire times of a schedule as ISO timestamps, starting after `now`.
+ */
+export function previewSchedule(
+  scheduleType: ScheduledTask['schedule_type'],
+  scheduleValue: string,
+  tz: string,
+  now: Date,
+  count = 5
+): string[] {
+  if (scheduleType === 'cron') {
+    const interval = CronExpressionParser.parse(scheduleValue, { tz, currentDate: now });
+    return Array.from({ length: count }, () => interval.next().toISOString()!);
+  }
+  if (scheduleType === 'interval') {
+    const ms = parseInt(scheduleValue, 10);
+    return Array.from({ length: count }, (_, i) => new Date(now.getTime() + (i + 1) * ms).toISOString());
+  }
+  if (scheduleType === 'once') {
+    const at = parseTimestampInZone(scheduleValue, tz);
+    return at ? [at.toISOString()] : [];
+  }
+  // after_task runs depend on other tasks, not the clock
+  return [];
+}
+
+/**
+ * Preview lines for the agent, e.g. "Mon 2026-02-02 09:00 (Europe/Berlin)".
+ */
+export function formatPreview(times: string[], tz: string): string {
+  return times.map(t => `- ${formatInZone(new Date(t), tz)} (${tz})`).join('\n');
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ScheduledTask } from './types.js';
+
+vi.mock('./db.js', () => ({
+  getAllTasks: vi.fn(() => []),
+  updateTask: vi.fn()
+}));
+vi.mock('./container-runner.js', () => ({}));
+
+const { getAllTasks, updateTask } = await import('./db.js');
+const { applyMisfirePolicy, findDependencyCycle } = await import('./task-scheduler.js');
+
+function makeTask(overrides: Partial<ScheduledTask>): ScheduledTask {
+  return {
+    id: 'task-1',
+    group_folder: 'main',
+    chat_jid: 'tg:1',
+    prompt: 'Check the news',
+    schedule_type: 'interval',
+    schedule_value: '3600000',
+    context_mode: 'isolated',
+    next_run: null,
+    last_run: null,
+    last_result: null,
+    status: 'active',
+    created_at: '2026-03-01T00:00:00.000Z',
+    max_attempts: 1,
+    retry_backoff_ms: 60000,
+    failure_count: 0,
+    misfire_policy: 'run_once',
+    misfire_grace_ms: 600000,
+    after_condition: 'success',
+    notify_mode: 'on_error',
+    last_result_hash: null,
+    timezone: 'UTC',
+    ends_at: null,
+    max_runs: null,
+    run_count: 0,
+    role: null,
+    ...overrides
+  };
+}
+
+beforeEach(() => {
+  vi.mocked(getAllTasks).mockReset().mockReturnValue([]);
+  vi.mocked(updateTask).mockReset();
+});
+
+describe('findDependencyCycle', () => {
+  function withDependencies(dependencies: Record<string, string>): void {
+    vi.mocked(getAllTasks).mockReturnValue(Object.entries(dependencies).map(([id, upstreams]) =>
+      makeTask({ id, schedule_type: 'after_task', schedule_value: upstreams })
+    ));
+  }
+
+  it('allows chains without loops', () => {
+    withDependencies({ b: 'a', c: 'b' });
+    expect(findDependencyCycle('d', ['c', 'a'])).toBeNull();
+  });
+
+  it('reports a task that depends on itself', () => {
+    expect(findDependencyCycle('a', ['a'])).toEqual(['a', 'a']);
+  });
+
+  it('reports a loop through other tasks', () => {
+    withDependencies({ b: 'a', c: 'b' });
+    expect(findDependencyCycle('a', ['c'])).toEqual(['a', 'c', 'b', 'a']);
+  });
+
+  it('checks the new upstreams instead of the stored ones', () => {
+    withDependencies({ a: 'b', b: 'x' });
+    // b currently waits on x; making it wait on a would loop
+    expect(findDependencyCycle('b', ['a'])).toEqual(['b', 'a', 'b']);
+    expect(findDependencyCycle('a', ['x'])).toBeNull();
+  });
+
+  it('ignores tasks that are not after_task', () => {
+    vi.mocked(getAllTasks).mockReturnValue([makeTask({ id: 'b', schedule_type: 'interval', schedule_value: '60000' })]);
+    expect(findDependencyCycle('a', ['b'])).toBeNull();
+  });
+});
+
+describe('applyMisfirePolicy', () => {
+  const now = new Date('2026-03-02T12:30:00Z');
+
+  it('runs tasks within the grace window as usual', () => {
+    const task = makeTask({ next_run: '2026-03-02T12:25:00.000Z', misfire_policy: 'skip' });
+    expect(applyMisfirePolicy(task, now)).toBe(task);
+    expect(updateTask).not.toHaveBeenCalled();
+  });
+
+  it('run_once runs a late task once', () => {
+    const task = makeTask({ next_run: '2026-03-02T09:00:00.000Z', misfire_policy: 'run_once' });
+    expect(applyMisfirePolicy(task, now)).toBe(task);
+    expect(updateTask).not.toHaveBeenCalled();
+  });
+
+  it('skip moves to the next slot after now and resets the failure count', () => {
+    const task = makeTask({
+      schedule_type: 'cron',
+      schedule_value: '0 9 * * *',
+      next_run: '2026-03-02T09:00:00.000Z',
+      misfire_policy: 'skip',
+      failure_count: 2
+    });
+    expect(applyMisfirePolicy(task, now)).toBeNull();
+    expect(updateTask).toHaveBeenCalledWith('task-1', {
+      next_run: '2026-03-03T09:00:00.000Z',
+      failure_count: 0,
+      last_result: 'Skipped missed run due at 2026-03-02T09:00:00.000Z'
+    });
+  });
+
+  it('skip completes a missed one-off task', () => {
+    const task = makeTask({ schedule_type: 'once', schedule_value: '2026-03-02T09:00:00', next_run: '2026-03-02T09:00:00.000Z', misfire_policy: 'skip' });
+    expect(applyMisfirePolicy(task, now)).toBeNull();
+    expect(updateTask).toHaveBeenCalledWith('task-1', expect.objectContaining({ next_run: null, status: 'completed' }));
+  });
+
+  it('run_all replays every missed slot from the first', () => {
+    const task = makeTask({ next_run: '2026-03-02T09:00:00.000Z', misfire_policy: 'run_all' });
+    expect(applyMisfirePolicy(task, now)).toEqual(task);
+    expect(updateTask).not.toHaveBeenCalled();
+  });
+
+  it('run_all keeps only the most recent missed slots', () => {
+    // Ten hourly slots from 03:00 to 12:00; the last five start at 08:00
+    const task = makeTask({ next_run: '2026-03-02T03:00:00.000Z', misfire_policy: 'run_all' });
+    expect(applyMisfirePolicy(task, now)).toEqual({ ...task, next_run: '2026-03-02T08:00:00.000Z' });
+    expect(updateTask).toHaveBeenCalledWith('task-1', { next_run: '2026-03-02T08:00:00.000Z' });
+  });
+
+  it('run_all counts missed cron slots', () => {
+    const task = makeTask({
+      schedule_type: 'cron',
+      schedule_value: '0 * * * *',
+      next_run: '2026-03-02T03:00:00.000Z',
+      misfire_policy: 'run_all'
+    });
+    expect(applyMisfirePolicy(task, now)).toEqual({ ...task, next_run: '2026-03-02T08:00:00.000Z' });
+  });
+});
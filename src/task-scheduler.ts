@@ -1,11 +1,27 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import pino from 'pino';
 import { CronExpressionParser } from 'cron-parser';
-import { getDueTasks, updateTaskAfterRun, logTaskRun, getTaskById, getAllTasks } from './db.js';
-import { ScheduledTask, RegisteredGroup } from './types.js';
-import { GROUPS_DIR, SCHEDULER_POLL_INTERVAL, DATA_DIR, MAIN_GROUP_FOLDER, TIMEZONE } from './config.js';
-import { runContainerAgent, writeTasksSnapshot } from './container-runner.js';
+import { getDueTasks, updateTask, updateTaskAfterRun, logTaskRun, getTaskById, getAllTasks, getTaskRunLogs } from './db.js';
+import { ScheduledTask, RegisteredGroup, TaskRunLog } from './types.js';
+import {
+  ASSISTANT_NAME,
+  GROUPS_DIR,
+  SCHEDULER_POLL_INTERVAL,
+  DATA_DIR,
+  MAIN_GROUP_FOLDER,
+  TASK_MISFIRE_MAX_CATCHUP,
+  TASK_RETRY_MAX_DELAY,
+  TIMEZONE
+} from './config.js';
+import {
+  getLatestContainerLog,
+  runContainerAgent,
+  writeTasksSnapshot,
+  writeTaskHistorySnapshot
+} from './container-runner.js';
+import { enqueueGroupRun } from './group-queue.js';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
@@ -18,69 +34,348 @@ export interface SchedulerDependencies {
   getSessions: () => Record<string, string>;
 }
 
+/**
+ * Next slot after `from`, or null if there is none or it falls after the task's ends_at.
+ */
+function computeNextRun(task: ScheduledTask, from: Date = new Date()): string | null {
+  let next: string | null = null;
+  if (task.schedule_type === 'cron') {
+    const interval = CronExpressionParser.parse(task.schedule_value, { tz: task.timezone || TIMEZONE, currentDate: from });
+    next = interval.next().toISOString();
+  } else if (task.schedule_type === 'interval') {
+    const ms = parseInt(task.schedule_value, 10);
+    next = new Date(from.getTime() + ms).toISOString();
+  }
+  // 'once' tasks have no next run; 'after_task' runs are set by triggerDependents
+
+  if (next && task.ends_at && new Date(next) > new Date(task.ends_at)) {
+    return null;
+  }
+  return next;
+}
+
+export function parseUpstreamIds(scheduleValue: string): string[] {
+  return [...new Set(scheduleValue.split(',').map(id => id.trim()).filter(Boolean))];
+}
+
+/**
+ * Check whether making `taskId` depend on `upstreamIds` would close a loop.
+ * Returns the cycle as a list of task IDs (starting and ending at taskId), or null.
+ */
+export function findDependencyCycle(taskId: string, upstreamIds: string[]): string[] | null {
+  const upstreamsOf = new Map<string, string[]>();
+  for (const t of getAllTasks()) {
+    if (t.schedule_type === 'after_task') upstreamsOf.set(t.id, parseUpstreamIds(t.schedule_value));
+  }
+  upstreamsOf.set(taskId, upstreamIds);
+
+  const visited = new Set<string>();
+  const walk = (id: string, trail: string[]): string[] | null => {
+    for (const upstream of upstreamsOf.get(id) || []) {
+      if (upstream === taskId) return [...trail, upstream];
+      if (visited.has(upstream)) continue;
+      visited.add(upstream);
+      const cycle = walk(upstream, [...trail, upstream]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return walk(taskId, [taskId]);
+}
+
+function matchesCondition(condition: ScheduledTask['after_condition'], status: TaskRunLog['status']): boolean {
+  if (condition === 'always') return true;
+  return condition === 'success' ? status === 'success' : status === 'error';
+}
+
+/**
+ * After a task's final outcome, queue any after_task dependents whose upstreams have all
+ * finished since the dependent last ran, with outcomes matching its condition.
+ */
+function triggerDependents(upstream: ScheduledTask): void {
+  const dependents = getAllTasks().filter(t =>
+    t.schedule_type === 'after_task' &&
+    t.status === 'active' &&
+    parseUpstreamIds(t.schedule_value).includes(upstream.id)
+  );
+
+  for (const dependent of dependents) {
+    if (dependent.ends_at && new Date() > new Date(dependent.ends_at)) {
+      updateTask(dependent.id, { status: 'completed' });
+      logger.info({ taskId: dependent.id, endsAt: dependent.ends_at }, 'Dependent task past its end date, completed');
+      continue;
+    }
+
+    const since = dependent.last_run || dependent.created_at;
+    const ready = parseUpstreamIds(dependent.schedule_value).every(id => {
+      const task = getTaskById(id);
+      const [latest] = getTaskRunLogs(id, 1);
+      // A task that is between retries hasn't reached its final outcome yet
+      return !!task && task.failure_count === 0 && !!latest && latest.run_at > since &&
+        matchesCondition(dependent.after_condition, latest.status);
+    });
+
+    if (ready) {
+      updateTask(dependent.id, { next_run: new Date().toISOString() });
+      logger.info({ taskId: dependent.id, upstream: upstream.id }, 'Dependent task triggered');
+    }
+  }
+}
+
+// Appended to the prompt when the scheduler, not the agent, delivers the result
+const DELIVERY_NOTES: Partial<Record<ScheduledTask['notify_mode'], string>> = {
+  always: '[Your final response will be sent to the chat automatically. Do not also send it with send_message.]',
+  on_change: '[Your final response will be sent to the chat automatically, but only if it differs from the previous run. Do not also send it with send_message. Report just the facts in a consistent format, so an unchanged situation produces identical text.]'
+};
+
+/**
+ * Dependent tasks get their upstream tasks' latest outcomes ahead of their own prompt,
+ * and tasks whose result is delivered by the scheduler are told so.
+ */
+function buildTaskPrompt(task: ScheduledTask): string {
+  const note = DELIVERY_NOTES[task.notify_mode];
+  const prompt = note ? `${task.prompt}\n\n${note}` : task.prompt;
+  if (task.schedule_type !== 'after_task') return prompt;
+
+  const sections = parseUpstreamIds(task.schedule_value).map(id => {
+    const [latest] = getTaskRunLogs(id, 1);
+    if (!latest) return `[UPSTREAM TASK ${id}: no runs recorded]`;
+    const output = latest.status === 'success' ? (latest.result || '(no output)') : `Error: ${latest.error || 'unknown'}`;
+    const trimmed = output.length > 4000 ? output.slice(0, 4000) + '\n[...truncated]' : output;
+    return `[UPSTREAM TASK ${id} - ${latest.status} at ${latest.run_at}]\n${trimmed}`;
+  });
+
+  return `${sections.join('\n\n')}\n\n${prompt}`;
+}
+
+function hashResult(result: string): string {
+  return crypto.createHash('sha256').update(result.trim()).digest('hex');
+}
+
+/**
+ * Send a successful run's result to the task's chat if its notify_mode calls for it.
+ * `task` is the state before this run, so last_result_hash is the previous result's.
+ */
+async function deliverTaskResult(
+  task: ScheduledTask,
+  result: string | null,
+  resultHash: string | undefined,
+  deps: SchedulerDependencies
+): Promise<void> {
+  if (!result?.trim()) return;
+
+  const changed = resultHash !== task.last_result_hash;
+  if (task.notify_mode !== 'always' && !(task.notify_mode === 'on_change' && changed)) {
+    if (task.notify_mode === 'on_change') {
+      logger.debug({ taskId: task.id }, 'Task result unchanged, not delivered');
+    }
+    return;
+  }
+
+  try {
+    await deps.sendMessage(task.chat_jid, `${ASSISTANT_NAME}: ${result}`);
+    logger.info({ taskId: task.id, notifyMode: task.notify_mode }, 'Task result delivered');
+  } catch (err) {
+    logger.error({ taskId: task.id, err }, 'Failed to deliver task result');
+  }
+}
+
+/**
+ * run_all tasks advance from the slot they were due at, so each missed slot gets its own run.
+ * Everything else schedules the next run from now.
+ */
+function nextRunAfter(task: ScheduledTask): string | null {
+  const from = task.misfire_policy === 'run_all' && task.next_run ? new Date(task.next_run) : new Date();
+  return computeNextRun(task, from);
+}
+
+/**
+ * Slots from the task's next_run up to now: how many were missed, and the oldest
+ * of the most recent `keep` of them.
+ */
+function countMissedSlots(task: ScheduledTask, now: Date, keep: number): { count: number; oldestKept: string } {
+  const first = new Date(task.next_run!);
+
+  if (task.schedule_type === 'interval') {
+    const ms = parseInt(task.schedule_value, 10);
+    const count = Math.floor((now.getTime() - first.getTime()) / ms) + 1;
+    const skipped = Math.max(0, count - keep);
+    return { count, oldestKept: new Date(first.getTime() + skipped * ms).toISOString() };
+  }
+
+  if (task.schedule_type === 'cron') {
+    const interval = CronExpressionParser.parse(task.schedule_value, { tz: task.timezone || TIMEZONE, currentDate: first });
+    const recent = [first.toISOString()];
+    let count = 1;
+    for (let slot = interval.next().toDate(); slot <= now; slot = interval.next().toDate()) {
+      count++;
+      recent.push(slot.toISOString());
+      if (recent.length > keep) recent.shift();
+    }
+    return { count, oldestKept: recent[0] };
+  }
+
+  return { count: 1, oldestKept: first.toISOString() };
+}
+
+/**
+ * Apply the task's misfire policy if it is overdue by more than its grace window.
+ * Returns the task to run now, or null if the missed run was skipped.
+ */
+export function applyMisfirePolicy(task: ScheduledTask, now: Date): ScheduledTask | null {
+  if (!task.next_run) return task;
+  const lateMs = now.getTime() - new Date(task.next_run).getTime();
+  if (lateMs <= task.misfire_grace_ms) return task;
+
+  switch (task.misfire_policy) {
+    case 'skip': {
+      const nextRun = computeNextRun(task, now);
+      // A skipped retry ends that run's attempts; the next run starts with all of them
+      updateTask(task.id, {
+        next_run: nextRun,
+        failure_count: 0,
+        last_result: `Skipped missed run due at ${task.next_run}`,
+        ...(!nextRun && task.schedule_type !== 'after_task' && { status: 'completed' as const })
+      });
+      logger.info({ taskId: task.id, missedAt: task.next_run, nextRun }, 'Missed run skipped');
+      return null;
+    }
+
+    case 'run_all': {
+      const { count, oldestKept } = countMissedSlots(task, now, TASK_MISFIRE_MAX_CATCHUP);
+      if (count > TASK_MISFIRE_MAX_CATCHUP) {
+        updateTask(task.id, { next_run: oldestKept });
+        logger.info({ taskId: task.id, missed: count, dropped: count - TASK_MISFIRE_MAX_CATCHUP }, 'Missed runs capped');
+      }
+      logger.info({ taskId: task.id, runs: Math.min(count, TASK_MISFIRE_MAX_CATCHUP) }, 'Replaying missed runs');
+      return { ...task, next_run: count > TASK_MISFIRE_MAX_CATCHUP ? oldestKept : task.next_run };
+    }
+
+    case 'run_once':
+    default:
+      logger.info({ taskId: task.id, missedAt: task.next_run }, 'Running missed task once');
+      return task;
+  }
+}
+
+/**
+ * Tell the task's chat (or the main chat) that a task has run out of attempts.
+ */
+async function notifyTaskFailure(
+  task: ScheduledTask,
+  error: string,
+  attempts: number,
+  nextRun: string | null,
+  ended: boolean,
+  deps: SchedulerDependencies
+): Promise<void> {
+  const mainJid = Object.entries(deps.registeredGroups()).find(
+    ([, group]) => group.folder === MAIN_GROUP_FOLDER
+  )?.[0];
+  const jid = task.chat_jid || mainJid;
+  if (!jid) {
+    logger.warn({ taskId: task.id }, 'No chat to notify about task failure');
+    return;
+  }
+
+  const prompt = task.prompt.length > 100 ? task.prompt.slice(0, 97) + '...' : task.prompt;
+  const lines = [
+    `${ASSISTANT_NAME}: Scheduled task ${task.id} failed after ${attempts} attempt${attempts === 1 ? '' : 's'}.`,
+    `Task: ${prompt}`,
+    `Error: ${error.slice(0, 500)}`
+  ];
+  const logFile = getLatestContainerLog(task.group_folder);
+  if (logFile) lines.push(`Log: ${logFile}`);
+  if (ended) {
+    lines.push('The task will not run again.');
+  } else if (task.schedule_type === 'after_task') {
+    lines.push('It will run again the next time its upstream tasks finish.');
+  } else {
+    lines.push(nextRun ? `Next scheduled run: ${nextRun}` : 'The task will not run again.');
+  }
+
+  try {
+    await deps.sendMessage(jid, lines.join('\n'));
+  } catch (err) {
+    logger.error({ taskId: task.id, jid, err }, 'Failed to send task failure notification');
+  }
+}
+
 async function runTask(task: ScheduledTask, deps: SchedulerDependencies): Promise<void> {
   const startTime = Date.now();
   const groupDir = path.join(GROUPS_DIR, task.group_folder);
   fs.mkdirSync(groupDir, { recursive: true });
 
-  logger.info({ taskId: task.id, group: task.group_folder }, 'Running scheduled task');
+  logger.info({ taskId: task.id, group: task.group_folder, attempt: task.failure_count + 1 }, 'Running scheduled task');
 
   const groups = deps.registeredGroups();
   const group = Object.values(groups).find(g => g.folder === task.group_folder);
 
+  let result: string | null = null;
+  let error: string | null = null;
+  let cancelled = false;
+
   if (!group) {
     logger.error({ taskId: task.id, groupFolder: task.group_folder }, 'Group not found for task');
-    logTaskRun({
-      task_id: task.id,
-      run_at: new Date().toISOString(),
-      duration_ms: Date.now() - startTime,
-      status: 'error',
-      result: null,
-      error: `Group not found: ${task.group_folder}`
-    });
-    return;
-  }
+    error = `Group not found: ${task.group_folder}`;
+  } else {
+    // Update tasks and task history snapshots for container to read (filtered by group)
+    const isMain = task.group_folder === MAIN_GROUP_FOLDER;
+    const tasks = getAllTasks();
+    writeTasksSnapshot(task.group_folder, isMain, tasks.map(t => ({
+      id: t.id,
+      groupFolder: t.group_folder,
+      prompt: t.prompt,
+      schedule_type: t.schedule_type,
+      schedule_value: t.schedule_value,
+      status: t.status,
+      next_run: t.next_run,
+      last_run: t.last_run,
+      last_result: t.last_result,
+      timezone: t.timezone || TIMEZONE,
+      ends_at: t.ends_at,
+      max_runs: t.max_runs,
+      run_count: t.run_count
+    })));
+    writeTaskHistorySnapshot(task.group_folder, isMain, tasks.map(t => ({
+      taskId: t.id,
+      groupFolder: t.group_folder,
+      prompt: t.prompt,
+      runs: getTaskRunLogs(t.id)
+    })));
 
-  // Update tasks snapshot for container to read (filtered by group)
-  const isMain = task.group_folder === MAIN_GROUP_FOLDER;
-  const tasks = getAllTasks();
-  writeTasksSnapshot(task.group_folder, isMain, tasks.map(t => ({
-    id: t.id,
-    groupFolder: t.group_folder,
-    prompt: t.prompt,
-    schedule_type: t.schedule_type,
-    schedule_value: t.schedule_value,
-    status: t.status,
-    next_run: t.next_run
-  })));
-
-  let result: string | null = null;
-  let error: string | null = null;
+    try {
+      // Wait for any chat run in the same group so sessions are never shared concurrently
+      const output = await enqueueGroupRun(task.group_folder, () => {
+        // For group context mode, use the group's current session (read once it's our turn)
+        const sessions = deps.getSessions();
+        const sessionId = task.context_mode === 'group' ? sessions[task.group_folder] : undefined;
 
-  // For group context mode, use the group's current session
-  const sessions = deps.getSessions();
-  const sessionId = task.context_mode === 'group' ? sessions[task.group_folder] : undefined;
+        return runContainerAgent(group, {
+          prompt: buildTaskPrompt(task),
+          sessionId,
+          groupFolder: task.group_folder,
+          chatJid: task.chat_jid,
+          isMain,
+          isScheduledTask: true,
+          role: task.role ?? undefined
+        });
+      });
 
-  try {
-    const output = await runContainerAgent(group, {
-      prompt: task.prompt,
-      sessionId,
-      groupFolder: task.group_folder,
-      chatJid: task.chat_jid,
-      isMain,
-      isScheduledTask: true
-    });
+      if (output.status === 'cancelled') {
+        cancelled = true;
+        error = output.error || 'Cancelled';
+      } else if (output.status === 'error') {
+        error = output.error || 'Unknown error';
+      } else {
+        result = output.result;
+      }
 
-    if (output.status === 'error') {
-      error = output.error || 'Unknown error';
-    } else {
-      result = output.result;
+      logger.info({ taskId: task.id, durationMs: Date.now() - startTime }, 'Task completed');
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      logger.error({ taskId: task.id, error }, 'Task failed');
     }
-
-    logger.info({ taskId: task.id, durationMs: Date.now() - startTime }, 'Task completed');
-  } catch (err) {
-    error = err instanceof Error ? err.message : String(err);
-    logger.error({ taskId: task.id, error }, 'Task failed');
   }
 
   const durationMs = Date.now() - startTime;
@@ -89,29 +384,83 @@ async function runTask(task: ScheduledTask, deps: SchedulerDependencies): Promis
     task_id: task.id,
     run_at: new Date().toISOString(),
     duration_ms: durationMs,
-    status: error ? 'error' : 'success',
+    status: cancelled ? 'cancelled' : error ? 'error' : 'success',
     result,
     error
   });
 
-  let nextRun: string | null = null;
-  if (task.schedule_type === 'cron') {
-    const interval = CronExpressionParser.parse(task.schedule_value, { tz: TIMEZONE });
-    nextRun = interval.next().toISOString();
-  } else if (task.schedule_type === 'interval') {
-    const ms = parseInt(task.schedule_value, 10);
-    nextRun = new Date(Date.now() + ms).toISOString();
+  // Dependent tasks go back to waiting for their upstreams instead of completing,
+  // unless this final outcome uses up max_runs
+  const isDependent = task.schedule_type === 'after_task';
+  const reachedMaxRuns = task.max_runs !== null && task.run_count + 1 >= task.max_runs;
+
+  if (!error) {
+    const resultHash = result ? hashResult(result) : undefined;
+    const nextRun = reachedMaxRuns ? null : nextRunAfter(task);
+    updateTaskAfterRun(task.id, {
+      nextRun,
+      lastResult: result ? result.slice(0, 200) : 'Completed',
+      failureCount: 0,
+      status: isDependent && !reachedMaxRuns ? 'active' : undefined,
+      resultHash,
+      countRun: true
+    });
+    triggerDependents(task);
+    await deliverTaskResult(task, result, resultHash, deps);
+    return;
   }
-  // 'once' tasks have no next run
 
-  const resultSummary = error ? `Error: ${error}` : (result ? result.slice(0, 200) : 'Completed');
-  updateTaskAfterRun(task.id, nextRun, resultSummary);
+  // A cancelled run isn't retried; the task waits for its next slot without a failure notice
+  const attempt = task.failure_count + 1;
+  if (attempt < task.max_attempts && !cancelled) {
+    const delay = Math.min(task.retry_backoff_ms * 2 ** (attempt - 1), TASK_RETRY_MAX_DELAY);
+    const retryAt = new Date(Date.now() + delay).toISOString();
+    logger.warn({ taskId: task.id, attempt, maxAttempts: task.max_attempts, retryAt }, 'Task failed, retry scheduled');
+    updateTaskAfterRun(task.id, {
+      nextRun: retryAt,
+      lastResult: `Error (attempt ${attempt}/${task.max_attempts}): ${error}`,
+      failureCount: attempt
+    });
+    return;
+  }
+
+  // Out of attempts: recurring tasks wait for their next slot, one-off tasks are marked failed
+  const nextRun = reachedMaxRuns ? null : nextRunAfter(task);
+  if (cancelled) {
+    logger.info({ taskId: task.id, nextRun }, 'Task run cancelled');
+  } else {
+    logger.error({ taskId: task.id, attempts: attempt, nextRun }, 'Task failed after final attempt');
+  }
+  let status: ScheduledTask['status'] | undefined;
+  if (task.schedule_type === 'once') status = 'failed';
+  else if (isDependent && !reachedMaxRuns) status = 'active';
+  updateTaskAfterRun(task.id, {
+    nextRun,
+    lastResult: cancelled ? error : `Error: ${error}`,
+    failureCount: 0,
+    status,
+    countRun: true
+  });
+  triggerDependents(task);
+  if (task.notify_mode !== 'never' && !cancelled) {
+    await notifyTaskFailure(task, error, attempt, nextRun, reachedMaxRuns, deps);
+  }
 }
 
 export function startSchedulerLoop(deps: SchedulerDependencies): void {
   logger.info('Scheduler loop started');
 
+  // When the next tick is due; 0 until the first tick has run
+  let expectedTick = 0;
+
   const loop = async () => {
+    // Missed runs are resolved at startup, and when the timer fires far too late because the machine slept
+    const overdueMs = Date.now() - expectedTick;
+    const catchUp = expectedTick === 0 || overdueMs > SCHEDULER_POLL_INTERVAL;
+    if (catchUp && expectedTick !== 0) {
+      logger.info({ sleptMs: overdueMs }, 'Wake from sleep detected, applying misfire policies');
+    }
+
     try {
       const dueTasks = getDueTasks();
       if (dueTasks.length > 0) {
@@ -125,12 +474,16 @@ export function startSchedulerLoop(deps: SchedulerDependencies): void {
           continue;
         }
 
-        await runTask(currentTask, deps);
+        const runnable = catchUp ? applyMisfirePolicy(currentTask, new Date()) : currentTask;
+        if (!runnable) continue;
+
+        await runTask(runnable, deps);
       }
     } catch (err) {
       logger.error({ err }, 'Error in scheduler loop');
     }
 
+    expectedTick = Date.now() + SCHEDULER_POLL_INTERVAL;
     setTimeout(loop, SCHEDULER_POLL_INTERVAL);
   };
 
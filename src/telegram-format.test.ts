@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { chunkTelegramHtml, markdownToTelegramHtml, telegramHtmlToText } from './telegram-format.js';
+
+describe('markdownToTelegramHtml', () => {
+  it('renders inline formatting and escapes the text around it', () => {
+    expect(markdownToTelegramHtml('**bold** and *it* and `a<b`')).toBe('<b>bold</b> and <i>it</i> and <code>a&lt;b</code>');
+    expect(markdownToTelegramHtml('5 < 6 & 7 > 3')).toBe('5 &lt; 6 &amp; 7 &gt; 3');
+  });
+
+  it('escapes link targets', () => {
+    expect(markdownToTelegramHtml('[link](https://example.com/?a=1&b=2)'))
+      .toBe('<a href="https://example.com/?a=1&amp;b=2">link</a>');
+  });
+
+  it('renders headings, lists and fenced code', () => {
+    expect(markdownToTelegramHtml('# Title\n\n- one\n- two\n\n```js\nif (a < b) {}\n```')).toBe(
+      '<b>Title</b>\n\n• one\n• two\n\n<pre><code class="language-js">if (a &lt; b) {}</code></pre>'
+    );
+  });
+
+  it('renders quotes and turns tables into fixed-width blocks', () => {
+    expect(markdownToTelegramHtml('> quoted\n\n| a | b |\n|---|---|\n| 1 | 22 |'))
+      .toBe('<blockquote>quoted</blockquote>\n\n<pre>a  b\n1  22</pre>');
+  });
+
+  it('leaves emphasis markers inside code alone', () => {
+    expect(markdownToTelegramHtml('`**not bold**`')).toBe('<code>**not bold**</code>');
+  });
+});
+
+describe('chunkTelegramHtml', () => {
+  // Every tag opened in a chunk is closed in it, in order
+  function isBalanced(html: string): boolean {
+    const open: string[] = [];
+    for (const [, closing, name] of html.matchAll(/<(\/?)([a-z]+)[^>]*>/g)) {
+      if (!closing) open.push(name);
+      else if (open.pop() !== name) return false;
+    }
+    return open.length === 0;
+  }
+
+  it('keeps short messages whole', () => {
+    expect(chunkTelegramHtml('<b>hi</b>\n\nthere', 100)).toEqual(['<b>hi</b>\n\nthere']);
+  });
+
+  it('packs whole blocks into each chunk', () => {
+    expect(chunkTelegramHtml('aaa\n\nbbb\n\nccc', 8)).toEqual(['aaa\n\nbbb', 'ccc']);
+  });
+
+  it('splits oversized blocks without breaking tags', () => {
+    const html = `<b>${'word '.repeat(20)}</b>`;
+    const chunks = chunkTelegramHtml(html, 40);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(40);
+      expect(isBalanced(chunk)).toBe(true);
+    }
+    // Chunks are cut at spaces, which aren't kept
+    expect(chunks.map(telegramHtmlToText).join(' ').split(/\s+/).filter(Boolean)).toEqual(Array(20).fill('word'));
+  });
+
+  it('reopens code blocks in every chunk they span', () => {
+    const code = `${'x'.repeat(30)}\n${'y'.repeat(30)}`;
+    const chunks = chunkTelegramHtml(`<pre><code>${code}</code></pre>`, 50);
+    for (const chunk of chunks) {
+      expect(chunk).toMatch(/^<pre><code>[\s\S]*<\/code><\/pre>$/);
+      expect(chunk.length).toBeLessThanOrEqual(50);
+    }
+    expect(chunks.map(telegramHtmlToText).join('').replace(/\n/g, '')).toBe(code.replace(/\n/g, ''));
+  });
+
+  it('never cuts an entity in half', () => {
+    const chunks = chunkTelegramHtml('&amp;'.repeat(30), 32);
+    for (const chunk of chunks) {
+      expect(chunk).toMatch(/^(&amp;)+$/);
+    }
+    expect(chunks.join('')).toBe('&amp;'.repeat(30));
+  });
+});
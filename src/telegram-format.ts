@@ -0,0 +1,278 @@
+/**
+ * Telegram formatting for NanoClaw
+ * Renders the agent's Markdown as the HTML subset Telegram accepts, and splits long
+ * messages on paragraph and code-block boundaries without breaking tags or entities
+ */
+
+const PLACEHOLDER = '\u0000';
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttr(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline Markdown (code, links, bold, italic, strikethrough) to HTML. Input is raw text.
+ */
+function renderInline(text: string): string {
+  // Code spans and links are swapped for placeholders so emphasis rules can't reach inside them
+  const stash: string[] = [];
+  const keep = (html: string) => `${PLACEHOLDER}${stash.push(html) - 1}${PLACEHOLDER}`;
+
+  let out = text
+    .replace(/`([^`\n]+)`/g, (_, code: string) => keep(`<code>${escapeHtml(code)}</code>`))
+    .replace(/!?\[([^\]\n]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) =>
+      keep(`<a href="${escapeAttr(url)}">${renderInline(label)}</a>`))
+    .replace(/<(https?:\/\/[^>\s]+)>/g, (_, url: string) => keep(`<a href="${escapeAttr(url)}">${escapeHtml(url)}</a>`));
+
+  out = escapeHtml(out)
+    .replace(/\*\*(?=\S)([^*\n]*?\S)\*\*/g, '<b>$1</b>')
+    .replace(/(^|[^\w])__(?=\S)([^_\n]*?\S)__(?!\w)/g, '$1<b>$2</b>')
+    .replace(/~~(?=\S)([^~\n]*?\S)~~/g, '<s>$1</s>')
+    .replace(/(^|[^*\w])\*(?=[^\s*])([^*\n]*?[^\s*])\*(?![*\w])/g, '$1<i>$2</i>')
+    .replace(/(^|[^\w])_(?=[^\s_])([^_\n]*?[^\s_])_(?!\w)/g, '$1<i>$2</i>');
+
+  return out.replace(new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g'), (_, i: string) => stash[Number(i)]);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+}
+
+// Telegram has no tables, so they become a fixed-width block with padded columns
+function renderTable(lines: string[]): string {
+  const rows = lines
+    .filter(line => !/^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line))
+    .map(line => splitTableRow(line).map(cell => cell.replace(/\*\*|__|`/g, '')));
+  const widths = rows.reduce<number[]>(
+    (acc, row) => row.map((cell, i) => Math.max(acc[i] ?? 0, cell.length)),
+    []
+  );
+  const text = rows.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+  return `<pre>${escapeHtml(text)}</pre>`;
+}
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s*#{1,6}\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET = /^(\s*)[-*+]\s+(.*)$/;
+const NUMBERED = /^(\s*)(\d+[.)])\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+/**
+ * Convert CommonMark-style Markdown to Telegram HTML. Blocks are separated by blank lines.
+ */
+export function markdownToTelegramHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(paragraph.join('\n'));
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      endParagraph();
+      const code: string[] = [];
+      // An unterminated fence runs to the end of the message
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      const lang = fence[2] ? ` class="language-${escapeAttr(fence[2])}"` : '';
+      blocks.push(`<pre><code${lang}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      endParagraph();
+      continue;
+    }
+
+    if (TABLE_ROW.test(line) && i + 1 < lines.length && /^\s*\|?\s*:?-{2,}/.test(lines[i + 1])) {
+      endParagraph();
+      const table = [line];
+      while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) {
+        table.push(lines[++i]);
+      }
+      blocks.push(renderTable(table));
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      endParagraph();
+      // Headings are bold already, so bold markers inside them are dropped
+      blocks.push(`<b>${renderInline(heading[1].replace(/\*\*|__/g, ''))}</b>`);
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      endParagraph();
+      blocks.push('──────────');
+      continue;
+    }
+
+    const quote = QUOTE.exec(line);
+    if (quote) {
+      endParagraph();
+      const quoted = [quote[1]];
+      while (i + 1 < lines.length && QUOTE.test(lines[i + 1])) {
+        quoted.push(QUOTE.exec(lines[++i])![1]);
+      }
+      blocks.push(`<blockquote>${quoted.map(renderInline).join('\n')}</blockquote>`);
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    if (bullet) {
+      paragraph.push(`${bullet[1]}• ${renderInline(bullet[2])}`);
+      continue;
+    }
+    const numbered = NUMBERED.exec(line);
+    if (numbered) {
+      paragraph.push(`${numbered[1]}${numbered[2]} ${renderInline(numbered[3])}`);
+      continue;
+    }
+
+    paragraph.push(renderInline(line.trim()));
+  }
+  endParagraph();
+
+  return blocks.join('\n\n');
+}
+
+const TAG = /<\/?([a-z]+)(?:\s[^>]*)?>/;
+
+/**
+ * Split top-level HTML into blocks at blank lines that aren't inside a tag.
+ */
+function splitBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const token of html.split(/(<[^>]+>)/)) {
+    if (TAG.test(token)) {
+      depth += token.startsWith('</') ? -1 : 1;
+      current += token;
+    } else if (depth > 0) {
+      current += token;
+    } else {
+      const parts = token.split(/\n{2,}/);
+      current += parts[0];
+      for (const part of parts.slice(1)) {
+        blocks.push(current);
+        current = part;
+      }
+    }
+  }
+  blocks.push(current);
+  return blocks.filter(block => block.trim());
+}
+
+// Don't cut inside an entity like &amp;
+function safeCut(text: string, at: number): number {
+  const amp = text.lastIndexOf('&', at - 1);
+  if (amp !== -1 && text.indexOf(';', amp) >= at) return amp;
+  return at;
+}
+
+/**
+ * Split one oversized block, closing open tags at the end of each piece and re-opening them
+ * at the start of the next. Prefers line breaks, then spaces.
+ */
+function splitBlock(block: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  const open: Array<{ name: string; tag: string }> = [];
+  const closers = () => open.map(t => `</${t.name}>`).reverse().join('');
+  const openers = () => open.map(t => t.tag).join('');
+  let current = '';
+
+  const flush = () => {
+    pieces.push(current + closers());
+    current = openers();
+  };
+
+  for (const token of block.split(/(<[^>]+>)/)) {
+    if (!token) continue;
+    const tag = TAG.exec(token);
+    if (tag) {
+      if (current.length + token.length + closers().length > maxLength && current !== openers()) flush();
+      current += token;
+      if (token.startsWith('</')) open.pop();
+      else open.push({ name: tag[1], tag: token });
+      continue;
+    }
+
+    let text = token;
+    while (text) {
+      const room = maxLength - current.length - closers().length;
+      if (text.length <= room) {
+        current += text;
+        break;
+      }
+      const newline = text.lastIndexOf('\n', room);
+      let cut = newline > room / 2 ? newline : Math.max(newline, text.lastIndexOf(' ', room));
+      if (cut <= 0) {
+        // Nothing to break on: start a fresh piece first, or cut hard if this one is already fresh
+        if (current !== openers()) {
+          flush();
+          continue;
+        }
+        cut = Math.max(room, 1);
+      }
+      cut = safeCut(text, cut) || room;
+      current += text.slice(0, cut);
+      flush();
+      text = text.slice(cut).replace(/^[ \n]/, '');
+    }
+  }
+  if (current !== openers()) pieces.push(current + closers());
+  return pieces;
+}
+
+/**
+ * Split Telegram HTML into messages of at most `maxLength` characters. Whole blocks
+ * (paragraphs, code blocks, quotes) are packed together; only oversized blocks are cut.
+ */
+export function chunkTelegramHtml(html: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const block of splitBlocks(html)) {
+    const pieces = block.length > maxLength ? splitBlock(block, maxLength) : [block];
+    for (const piece of pieces) {
+      if (current && current.length + 2 + piece.length <= maxLength) {
+        current += `\n\n${piece}`;
+      } else {
+        if (current) chunks.push(current);
+        current = piece;
+      }
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Plain-text version of Telegram HTML, for when Telegram rejects the markup.
+ */
+export function telegramHtmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
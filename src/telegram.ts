@@ -1,5 +1,6 @@
-import { Telegraf, Context } from 'telegraf';
+import { Telegraf, Context, Markup, TelegramError } from 'telegraf';
 import { message } from 'telegraf/filters';
+import type { Message } from 'telegraf/types';
 import pino from 'pino';
 import path from 'path';
 import fs from 'fs';
@@ -8,12 +9,34 @@ import {
   DATA_DIR,
   GROUPS_DIR,
   ASSISTANT_NAME,
-  MAIN_GROUP_FOLDER
+  MAIN_GROUP_FOLDER,
+  TIMEZONE
 } from './config.js';
-import { runContainerAgent, writeTasksSnapshot, writeGroupsSnapshot, AvailableGroup } from './container-runner.js';
-import { RegisteredGroup } from './types.js';
+import {
+  runContainerAgent,
+  writeTasksSnapshot,
+  writeTaskHistorySnapshot,
+  writeGroupsSnapshot,
+  AvailableGroup,
+  ContainerEvent,
+  getActiveRun,
+  getLastRun,
+  cancelRun
+} from './container-runner.js';
+import { RegisteredGroup, TelegramRole } from './types.js';
 import { loadJson, saveJson } from './utils.js';
-import { getAllTasks } from './db.js';
+import {
+  getAllTasks,
+  getMessagesAfterId,
+  getTaskRunLogs,
+  storeChatMetadata,
+  storeMessage
+} from './db.js';
+import { Channel, ChannelHost, SendResult } from './channels.js';
+import { enqueueGroupRun, getQueueStatus } from './group-queue.js';
+import { chunkTelegramHtml, escapeHtml, markdownToTelegramHtml, telegramHtmlToText } from './telegram-format.js';
+import { formatInZone, wallClockIn } from './timezone.js';
+import { lowerRole, roleAtLeast } from './roles.js';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
@@ -33,6 +56,29 @@ interface PairedUser {
   firstName?: string;
   pairedAt: string;
   approvedBy?: string;
+  role?: TelegramRole;
+  // Approvals from before roles: read-only users are guests, everyone else a member
+  readOnly?: boolean;
+  expiresAt?: string;  // ISO; access ends then and the user has to request it again
+  limits?: UsageLimits;  // Overrides TELEGRAM_CONFIG's daily limits
+}
+
+export interface UsageLimits {
+  dailyRuns?: number;            // 0 = unlimited
+  dailyRuntimeMinutes?: number;  // 0 = unlimited
+}
+
+export interface ApprovalOptions {
+  role?: TelegramRole;  // Default: member
+  expiresAt?: string;
+  limits?: UsageLimits;
+}
+
+// Today's usage per user; a new day in TIMEZONE starts from zero
+interface DailyUsage {
+  date: string;  // YYYY-MM-DD
+  runs: number;
+  runtimeMs: number;
 }
 
 interface PendingApproval {
@@ -63,9 +109,29 @@ function savePendingApprovals(pending: Record<number, PendingApproval>): void {
   saveJson(filePath, pending);
 }
 
+function isExpired(user: PairedUser): boolean {
+  return !!user.expiresAt && user.expiresAt <= new Date().toISOString();
+}
+
 function isUserPaired(userId: number): boolean {
-  const users = loadPairedUsers();
-  return !!users[userId];
+  const user = loadPairedUsers()[userId];
+  return !!user && !isExpired(user);
+}
+
+function hasExpiredAccess(userId: number): boolean {
+  const user = loadPairedUsers()[userId];
+  return !!user && isExpired(user);
+}
+
+/**
+ * A Telegram user's role: the configured admin is always the owner, paired users have
+ * the role they were approved with. Null if the user isn't paired.
+ */
+export function getUserRole(userId: number): TelegramRole | null {
+  if (isTelegramAdmin(userId)) return 'owner';
+  const user = loadPairedUsers()[userId];
+  if (!user || isExpired(user)) return null;
+  return user.role ?? (user.readOnly ? 'guest' : 'member');
 }
 
 function hasPendingApproval(userId: number): boolean {
@@ -90,18 +156,26 @@ function requestApproval(userId: number, username?: string, firstName?: string,
   logger.info({ userId, username }, 'Telegram access requested');
 }
 
-export function approveUser(userId: number, approvedBy?: string): boolean {
+/**
+ * Pair a user. Approving an already paired user replaces their role, expiry and limits.
+ */
+export function approveUser(userId: number, approvedBy?: string, options: ApprovalOptions = {}): boolean {
+  const role = options.role ?? 'member';
   const pending = loadPendingApprovals();
   const pendingUser = pending[userId];
 
   // Also allow approving users not in pending (direct approval)
   const users = loadPairedUsers();
+  const existing = users[userId];
   users[userId] = {
     userId,
-    username: pendingUser?.username,
-    firstName: pendingUser?.firstName,
-    pairedAt: new Date().toISOString(),
-    approvedBy
+    username: pendingUser?.username ?? existing?.username,
+    firstName: pendingUser?.firstName ?? existing?.firstName,
+    pairedAt: existing?.pairedAt ?? new Date().toISOString(),
+    approvedBy,
+    role,
+    ...(options.expiresAt && { expiresAt: options.expiresAt }),
+    ...(options.limits && { limits: options.limits })
   };
   savePairedUsers(users);
 
@@ -111,11 +185,17 @@ export function approveUser(userId: number, approvedBy?: string): boolean {
     savePendingApprovals(pending);
   }
 
-  logger.info({ userId, approvedBy }, 'Telegram user approved');
+  logger.info({ userId, approvedBy, role, expiresAt: options.expiresAt }, 'Telegram user approved');
 
   // Notify the user via Telegram if bot is running
   if (bot) {
-    bot.telegram.sendMessage(userId, `Access approved! You can now chat with me.`).catch(err => {
+    const expiry = options.expiresAt ? ` Access expires ${formatInZone(new Date(options.expiresAt), TIMEZONE)}.` : '';
+    const notice = (role === 'guest'
+      ? `Access approved (read-only)! You can now chat with me, but I can't change files or schedule tasks for you.`
+      : existing && !isExpired(existing)
+        ? `Your access was updated: you are now ${role === 'admin' ? 'an' : 'a'} ${role}.`
+        : `Access approved! You can now chat with me.`) + expiry;
+    bot.telegram.sendMessage(userId, notice).catch(err => {
       logger.debug({ err, userId }, 'Could not notify approved user');
     });
   }
@@ -146,9 +226,17 @@ export function listPendingApprovals(): PendingApproval[] {
   return Object.values(pending);
 }
 
-export function listPairedUsers(): PairedUser[] {
+/**
+ * Paired users (including expired ones) with their role and today's usage, for the main group.
+ */
+export function listPairedUsers(): Array<PairedUser & { role: TelegramRole; expired: boolean; usage: DailyUsage }> {
   const users = loadPairedUsers();
-  return Object.values(users);
+  return Object.values(users).map(user => ({
+    ...user,
+    role: user.role ?? (user.readOnly ? 'guest' : 'member'),
+    expired: isExpired(user),
+    usage: getUsageToday(user.userId)
+  }));
 }
 
 export function unpairUser(userId: number): boolean {
@@ -157,11 +245,76 @@ export function unpairUser(userId: number): boolean {
     delete users[userId];
     savePairedUsers(users);
     logger.info({ userId }, 'Telegram user unpaired');
+
+    if (bot) {
+      bot.telegram.sendMessage(userId, `Your access has been revoked.`).catch(err => {
+        logger.debug({ err, userId }, 'Could not notify unpaired user');
+      });
+    }
     return true;
   }
   return false;
 }
 
+const USAGE_PATH = path.join(DATA_DIR, 'telegram_usage.json');
+
+function today(): string {
+  const wall = wallClockIn(new Date(), TIMEZONE);
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+}
+
+function getUsageToday(userId: number): DailyUsage {
+  const usage = loadJson<Record<number, DailyUsage>>(USAGE_PATH, {})[userId];
+  const date = today();
+  return usage?.date === date ? usage : { date, runs: 0, runtimeMs: 0 };
+}
+
+/**
+ * Add a run (or its runtime) to each user's usage for today.
+ */
+function recordUsage(userIds: number[], runs: number, runtimeMs: number): void {
+  const all = loadJson<Record<number, DailyUsage>>(USAGE_PATH, {});
+  for (const userId of userIds) {
+    const usage = getUsageToday(userId);
+    all[userId] = { date: usage.date, runs: usage.runs + runs, runtimeMs: usage.runtimeMs + runtimeMs };
+  }
+  saveJson(USAGE_PATH, all);
+}
+
+// The user's own limits, falling back to the defaults (0 = unlimited)
+function getUsageLimits(userId: number): { maxRuns: number; maxMinutes: number } {
+  const limits = loadPairedUsers()[userId]?.limits;
+  return {
+    maxRuns: limits?.dailyRuns ?? TELEGRAM_CONFIG.dailyRunLimit,
+    maxMinutes: limits?.dailyRuntimeMinutes ?? TELEGRAM_CONFIG.dailyRuntimeMinutes
+  };
+}
+
+/**
+ * Why the user can't start another run today, or null if they're within their limits.
+ * The owner has no limits.
+ */
+function checkUsageLimits(userId: number, role: TelegramRole): string | null {
+  if (role === 'owner') return null;
+  const { maxRuns, maxMinutes } = getUsageLimits(userId);
+  const usage = getUsageToday(userId);
+
+  if (maxRuns > 0 && usage.runs >= maxRuns) {
+    return `You've used all ${maxRuns} of your requests for today. Your limit resets at midnight (${TIMEZONE}).`;
+  }
+  if (maxMinutes > 0 && usage.runtimeMs >= maxMinutes * 60000) {
+    return `You've used your ${maxMinutes} minutes of agent time for today. Your limit resets at midnight (${TIMEZONE}).`;
+  }
+  return null;
+}
+
+// The admin who may answer access requests: TELEGRAM_ADMIN_USER_ID, or the admin chat ID,
+// which is the admin's user ID when the admin chat is a private chat
+function isTelegramAdmin(userId: number): boolean {
+  const adminId = process.env.TELEGRAM_ADMIN_USER_ID || process.env.TELEGRAM_ADMIN_CHAT_ID;
+  return !!adminId && parseInt(adminId, 10) === userId;
+}
+
 async function notifyAdminOfAccessRequest(
   userId: number,
   username?: string,
@@ -181,16 +334,20 @@ async function notifyAdminOfAccessRequest(
     ? `\n\nFirst message: "${firstMessage.slice(0, 100)}${firstMessage.length > 100 ? '...' : ''}"`
     : '';
 
-  const notification = `*Telegram Access Request*\n\n` +
-    `${userDisplay} (ID: ${userId}) wants to access the bot.${messagePreview}\n\n` +
-    `Reply:\n` +
-    `• "approve telegram ${userId}" to grant access\n` +
-    `• "deny telegram ${userId}" to reject`;
+  const notification = `<b>Telegram Access Request</b>\n\n` +
+    `${escapeHtml(userDisplay)} (ID: ${userId}) wants to access the bot.${escapeHtml(messagePreview)}`;
+  const keyboard = Markup.inlineKeyboard([
+    [
+      Markup.button.callback('Approve', `access:approve:${userId}`),
+      Markup.button.callback('Approve as guest (read-only)', `access:approve_ro:${userId}`)
+    ],
+    [Markup.button.callback('Deny', `access:deny:${userId}`)]
+  ]);
 
   // Send directly via Telegram bot
   if (bot) {
     try {
-      await bot.telegram.sendMessage(parseInt(adminChatId, 10), notification, { parse_mode: 'Markdown' });
+      await bot.telegram.sendMessage(parseInt(adminChatId, 10), notification, { parse_mode: 'HTML', ...keyboard });
       logger.info({ userId, username, adminChatId }, 'Admin notified of Telegram access request');
     } catch (err) {
       logger.error({ err, userId }, 'Failed to notify admin of access request');
@@ -198,6 +355,45 @@ async function notifyAdminOfAccessRequest(
   }
 }
 
+/**
+ * Handle a tap on an access request's Approve / Approve read-only / Deny button.
+ * Only the admin may decide; the request message is edited to record the outcome.
+ */
+async function handleAccessDecision(ctx: Context & { match: RegExpExecArray }): Promise<void> {
+  const [, action, id] = ctx.match;
+  const userId = parseInt(id, 10);
+  const admin = ctx.from;
+
+  if (!admin || !isTelegramAdmin(admin.id)) {
+    logger.warn({ from: admin?.id, userId, action }, 'Access decision from non-admin ignored');
+    await ctx.answerCbQuery('Only the admin can answer access requests.', { show_alert: true });
+    return;
+  }
+
+  const pending = loadPendingApprovals()[userId];
+  const adminName = admin.username ? `@${admin.username}` : admin.first_name;
+  let outcome: string;
+  if (!pending) {
+    outcome = isUserPaired(userId) ? 'Already approved' : 'No longer pending';
+  } else if (action === 'deny') {
+    denyUser(userId);
+    outcome = `❌ Denied by ${adminName}`;
+  } else {
+    const role = action === 'approve_ro' ? 'guest' : 'member';
+    approveUser(userId, `telegram:${admin.id}`, { role });
+    outcome = `✅ Approved as ${role} by ${adminName}`;
+  }
+
+  await ctx.answerCbQuery(outcome);
+  const original = ctx.callbackQuery?.message && 'text' in ctx.callbackQuery.message
+    ? ctx.callbackQuery.message.text
+    : `Access request from ${userId}`;
+  // Editing without a keyboard removes the buttons
+  await ctx.editMessageText(`${escapeHtml(original)}\n\n<b>${escapeHtml(outcome)}</b>`, { parse_mode: 'HTML' }).catch(err => {
+    logger.debug({ err, userId }, 'Could not edit access request message');
+  });
+}
+
 function loadTelegramChats(): Record<string, RegisteredGroup> {
   const filePath = path.join(DATA_DIR, 'registered_telegram.json');
   return loadJson(filePath, {});
@@ -208,20 +404,27 @@ function saveTelegramChats(chats: Record<string, RegisteredGroup>): void {
   saveJson(filePath, chats);
 }
 
-function getGroupFolder(chatId: number, chatType: string, title?: string, username?: string): string {
+/**
+ * The folder a chat already maps to, or null if it has none yet.
+ */
+function findGroupFolder(chatId: number, chatType: string, role: TelegramRole): string | null {
+  // For unified main channel, admins' private chats use the main folder; it has the
+  // project root mounted read-write, so members and guests get a folder of their own
+  if (chatType === 'private' && TELEGRAM_CONFIG.unifiedMainChannel && roleAtLeast(role, 'admin')) {
+    return MAIN_GROUP_FOLDER;
+  }
+  return loadTelegramChats()[`tg:${chatId}`]?.folder ?? null;
+}
+
+function getGroupFolder(chatId: number, chatType: string, role: TelegramRole, title?: string, username?: string): string {
+  const existing = findGroupFolder(chatId, chatType, role);
+  if (existing) return existing;
+
   const chats = loadTelegramChats();
   const key = `tg:${chatId}`;
 
-  if (chats[key]) {
-    return chats[key].folder;
-  }
-
   // Auto-register private chats
   if (chatType === 'private') {
-    // For unified main channel, use main folder
-    if (TELEGRAM_CONFIG.unifiedMainChannel) {
-      return MAIN_GROUP_FOLDER;
-    }
 
     const folder = `telegram-private-${chatId}`;
     const displayName = username || title || `Telegram ${chatId}`;
@@ -271,10 +474,241 @@ function getGroupFolder(chatId: number, chatType: string, title?: string, userna
   return '';
 }
 
+// Incoming media attached to a Telegram message
+interface TelegramAttachment {
+  type: 'photo' | 'document' | 'voice' | 'audio' | 'video';
+  fileId: string;
+  filename: string;
+  mimeType?: string;
+  size?: number;
+}
+
+function extractAttachment(msg: Message): TelegramAttachment | null {
+  if ('photo' in msg && msg.photo.length > 0) {
+    // Sizes are ordered smallest to largest
+    const photo = msg.photo[msg.photo.length - 1];
+    return { type: 'photo', fileId: photo.file_id, filename: 'photo.jpg', mimeType: 'image/jpeg', size: photo.file_size };
+  }
+  if ('document' in msg) {
+    const doc = msg.document;
+    return { type: 'document', fileId: doc.file_id, filename: doc.file_name || 'document', mimeType: doc.mime_type, size: doc.file_size };
+  }
+  if ('voice' in msg) {
+    const voice = msg.voice;
+    return { type: 'voice', fileId: voice.file_id, filename: 'voice.ogg', mimeType: voice.mime_type, size: voice.file_size };
+  }
+  if ('audio' in msg) {
+    const audio = msg.audio;
+    return { type: 'audio', fileId: audio.file_id, filename: audio.file_name || 'audio.mp3', mimeType: audio.mime_type, size: audio.file_size };
+  }
+  if ('video' in msg) {
+    const video = msg.video;
+    return { type: 'video', fileId: video.file_id, filename: video.file_name || 'video.mp4', mimeType: video.mime_type, size: video.file_size };
+  }
+  return null;
+}
+
+function sanitizeMediaFilename(name: string): string {
+  const safe = path.basename(name).replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^[._]+/, '');
+  return safe.slice(-100) || 'file';
+}
+
+/**
+ * Download an attachment into groups/<folder>/inbox/ and return the saved filename and size.
+ */
+async function downloadAttachment(attachment: TelegramAttachment, folder: string): Promise<{ filename: string; size: number }> {
+  if (!bot) throw new Error('Telegram bot not started');
+
+  if (attachment.size && attachment.size > TELEGRAM_CONFIG.maxMediaSize) {
+    const mb = (n: number) => `${Math.round(n / 1024 / 1024)}MB`;
+    throw new Error(`file too large (${mb(attachment.size)}, limit ${mb(TELEGRAM_CONFIG.maxMediaSize)})`);
+  }
+
+  const inboxDir = path.join(GROUPS_DIR, folder, 'inbox');
+  fs.mkdirSync(inboxDir, { recursive: true });
+
+  const link = await bot.telegram.getFileLink(attachment.fileId);
+  const response = await fetch(link);
+  if (!response.ok) {
+    throw new Error(`download failed with HTTP ${response.status}`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+
+  const filename = `${Date.now()}-${sanitizeMediaFilename(attachment.filename)}`;
+  fs.writeFileSync(path.join(inboxDir, filename), data);
+
+  logger.info({ folder, filename, type: attachment.type, size: data.length }, 'Telegram attachment saved');
+  return { filename, size: data.length };
+}
+
+function escapeXmlAttr(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Describe a downloaded (or failed) attachment for the prompt envelope.
+ * Paths are as seen from inside the container.
+ */
+async function describeAttachment(attachment: TelegramAttachment, folder: string, caption: string): Promise<string> {
+  const attrs: Record<string, string> = { type: attachment.type };
+  try {
+    const saved = await downloadAttachment(attachment, folder);
+    attrs.filename = saved.filename;
+    attrs.path = `/workspace/group/inbox/${saved.filename}`;
+    attrs.size = String(saved.size);
+  } catch (err) {
+    logger.warn({ err, folder, type: attachment.type }, 'Failed to download Telegram attachment');
+    attrs.filename = attachment.filename;
+    attrs.error = err instanceof Error ? err.message : String(err);
+  }
+  if (attachment.mimeType) attrs.mime_type = attachment.mimeType;
+  if (caption) attrs.caption = caption;
+
+  const rendered = Object.entries(attrs).map(([k, v]) => `${k}="${escapeXmlAttr(v)}"`).join(' ');
+  return `<attachment ${rendered} />`;
+}
+
+const PROGRESS_EDIT_INTERVAL = 3000;  // Telegram rate-limits message edits
+const PROGRESS_MAX_STEPS = 5;
+
+/**
+ * Live status message for a running agent.
+ * Posted on the first streamed event, edited (throttled) as work progresses,
+ * then replaced with the final answer by finish().
+ */
+function createProgressReporter(ctx: Context) {
+  const chatId = ctx.chat!.id;
+  const startTime = Date.now();
+  const steps: string[] = [];
+  let latestText = '';
+  let messageId: number | null = null;
+  // The send or edit in progress; only one at a time, so there's one status message and finish() goes last
+  let flushing: Promise<void> | null = null;
+  let dirty = false;  // Events arrived during the flush
+  let lastRendered = '';
+  let lastEditAt = 0;
+  let editTimer: NodeJS.Timeout | null = null;
+  let finished = false;
+
+  const render = (): string => {
+    const elapsed = Math.round((Date.now() - startTime) / 1000);
+    const lines = [`Working... (${elapsed}s)`];
+    if (steps.length > 0) {
+      lines.push('', ...steps.slice(-PROGRESS_MAX_STEPS).map(step => `• ${step}`));
+    }
+    if (latestText) {
+      const preview = latestText.length > 500 ? latestText.slice(0, 497) + '...' : latestText;
+      lines.push('', preview);
+    }
+    return lines.join('\n');
+  };
+
+  const flush = async (): Promise<void> => {
+    if (finished || !bot) return;
+    const text = render();
+    if (text === lastRendered) return;
+    lastRendered = text;
+    lastEditAt = Date.now();
+
+    try {
+      if (messageId === null) {
+        const sent = await bot.telegram.sendMessage(chatId, text);
+        messageId = sent.message_id;
+      } else {
+        await bot.telegram.editMessageText(chatId, messageId, undefined, text);
+      }
+    } catch (err) {
+      logger.debug({ err, chatId }, 'Progress update failed');
+    }
+  };
+
+  const startFlush = (): void => {
+    editTimer = null;
+    flushing = flush().finally(() => {
+      flushing = null;
+      if (dirty) {
+        dirty = false;
+        schedule();
+      }
+    });
+  };
+
+  const schedule = (): void => {
+    if (finished || editTimer) return;
+    if (flushing) {
+      dirty = true;
+      return;
+    }
+    if (messageId === null) {
+      // First event: post immediately so the user sees something
+      startFlush();
+      return;
+    }
+    const wait = Math.max(0, PROGRESS_EDIT_INTERVAL - (Date.now() - lastEditAt));
+    editTimer = setTimeout(startFlush, wait);
+  };
+
+  return {
+    onEvent(event: ContainerEvent): void {
+      if (event.type === 'tool_use') {
+        steps.push(event.summary ? `${event.tool}: ${event.summary}` : event.tool);
+      } else {
+        latestText = event.text.trim();
+      }
+      schedule();
+    },
+
+    /**
+     * Replace the status message with the final text, or remove it and reply normally
+     * if the text needs more than one message or can't be edited in.
+     */
+    async finish(finalText: string | null): Promise<void> {
+      finished = true;
+      if (editTimer) clearTimeout(editTimer);
+      editTimer = null;
+      if (flushing) await flushing;
+
+      if (messageId !== null && bot) {
+        const chunks = finalText ? chunkTelegramHtml(markdownToTelegramHtml(finalText), MAX_MESSAGE_LENGTH) : [];
+        if (chunks.length === 1) {
+          try {
+            await bot.telegram.editMessageText(chatId, messageId, undefined, chunks[0], { parse_mode: 'HTML' });
+            return;
+          } catch {
+            try {
+              await bot.telegram.editMessageText(chatId, messageId, undefined, telegramHtmlToText(chunks[0]));
+              return;
+            } catch (err) {
+              logger.debug({ err, chatId }, 'Could not edit status into final answer');
+            }
+          }
+        }
+        await bot.telegram.deleteMessage(chatId, messageId).catch(err => {
+          logger.debug({ err, chatId }, 'Could not delete status message');
+        });
+      }
+
+      if (finalText) {
+        await sendTelegramResponse(ctx, finalText);
+      }
+    }
+  };
+}
+
 async function handleMessage(ctx: Context): Promise<void> {
-  if (!ctx.message || !('text' in ctx.message)) return;
+  if (!ctx.message) return;
+
+  const attachment = TELEGRAM_CONFIG.mediaEnabled ? extractAttachment(ctx.message) : null;
+  const text = 'text' in ctx.message
+    ? ctx.message.text
+    : ('caption' in ctx.message && ctx.message.caption) || '';
+
+  if (!text && !attachment) return;
 
-  const text = ctx.message.text;
   const chatId = ctx.chat?.id;
   const chatType = ctx.chat?.type;
   const chatTitle = ctx.chat && 'title' in ctx.chat ? ctx.chat.title : undefined;
@@ -289,8 +723,39 @@ async function handleMessage(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
   const firstName = ctx.from?.first_name;
 
-  // Check if user is paired (approved for access)
-  if (userId && !isUserPaired(userId)) {
+  // Check if private chats are enabled
+  if (isPrivate && !TELEGRAM_CONFIG.privateChatsEnabled) {
+    logger.debug({ chatId }, 'Private chats disabled, ignoring');
+    return;
+  }
+
+  // Check if groups are enabled
+  if (!isPrivate && !TELEGRAM_CONFIG.groupsEnabled) {
+    logger.debug({ chatId }, 'Groups disabled, ignoring');
+    return;
+  }
+
+  const key = `tg:${chatId}`;
+  const messageId = String(ctx.message.message_id);
+  const sentAt = new Date(ctx.message.date * 1000).toISOString();
+
+  // Metadata for every chat; content only for chats the bot works in, for catch-up context.
+  // Registered chats keep messages from unpaired members too, so the agent sees the whole conversation.
+  const paired = !userId || isUserPaired(userId);
+  storeChatMetadata(key, sentAt, chatTitle || fromUser);
+  if ((isPrivate && paired) || loadTelegramChats()[key]) {
+    storeMessage({
+      id: messageId,
+      chat_jid: key,
+      sender: String(userId ?? chatId),
+      sender_name: fromUser,
+      content: text || (attachment ? `[${attachment.type}]` : ''),
+      timestamp: sentAt
+    }, false);
+  }
+
+  // Only paired (approved) users can start a run
+  if (userId && !paired) {
     if (hasPendingApproval(userId)) {
       // Already requested, waiting for approval
       await ctx.reply('Your access request is pending approval. Please wait.');
@@ -298,39 +763,40 @@ async function handleMessage(ctx: Context): Promise<void> {
     }
 
     // New user - request approval
-    requestApproval(userId, fromUsername, firstName, text);
+    const firstMessage = text || (attachment ? `[${attachment.type}]` : '');
+    requestApproval(userId, fromUsername, firstName, firstMessage);
 
     // Notify admin via WhatsApp main channel
-    await notifyAdminOfAccessRequest(userId, fromUsername, firstName, text);
+    await notifyAdminOfAccessRequest(userId, fromUsername, firstName, firstMessage);
 
-    await ctx.reply(
-      `Welcome! I've sent an access request to the administrator.\n\n` +
-      `You'll be notified when your request is approved.`
+    await ctx.reply(hasExpiredAccess(userId)
+      ? `Your access has expired. I've sent a new access request to the administrator.\n\n` +
+        `You'll be notified when your request is approved.`
+      : `Welcome! I've sent an access request to the administrator.\n\n` +
+        `You'll be notified when your request is approved.`
     );
     return;
   }
 
-  // Check if private chats are enabled
-  if (isPrivate && !TELEGRAM_CONFIG.privateChatsEnabled) {
-    logger.debug({ chatId }, 'Private chats disabled, ignoring');
+  // For groups, require trigger pattern (groups will be auto-registered on first trigger)
+  if (!isPrivate && !TELEGRAM_CONFIG.triggerPattern.test(text)) {
+    logger.debug('Message does not match trigger pattern');
     return;
   }
 
-  // Check if groups are enabled
-  if (!isPrivate && !TELEGRAM_CONFIG.groupsEnabled) {
-    logger.debug({ chatId }, 'Groups disabled, ignoring');
-    return;
-  }
+  // Messages without a sender (channel posts) get the least access
+  const role = (userId && getUserRole(userId)) || 'guest';
 
-  // For groups, require trigger pattern (groups will be auto-registered on first trigger)
-  if (!isPrivate && !TELEGRAM_CONFIG.triggerPattern.test(text)) {
-    logger.debug('Message does not match trigger pattern');
+  // Over the daily limit: say so instead of starting another container
+  const limitReached = userId ? checkUsageLimits(userId, role) : null;
+  if (limitReached) {
+    logger.info({ userId, chatId }, 'Telegram user over daily usage limit');
+    await ctx.reply(limitReached);
     return;
   }
 
   // Get folder (auto-registers private chats and groups)
-  const folder = getGroupFolder(chatId, chatType, chatTitle, fromUsername);
-  const key = `tg:${chatId}`;
+  const folder = getGroupFolder(chatId, chatType, role, chatTitle, fromUsername);
 
   if (!folder) {
     logger.warn({ chatId }, 'No folder for Telegram chat, ignoring');
@@ -340,12 +806,108 @@ async function handleMessage(ctx: Context): Promise<void> {
   // Remove trigger from message for groups
   const prompt = isPrivate ? text : text.replace(TELEGRAM_CONFIG.triggerPattern, '').trim();
 
-  if (!prompt) return;
+  if (!prompt && !attachment) return;
+
+  // Media goes into the group's inbox/; the caption travels with the attachment.
+  // Text is escaped so it can't close the envelope or open one for someone else.
+  const body = attachment
+    ? await describeAttachment(attachment, folder, prompt)
+    : escapeHtml(prompt);
+  const envelope = `<telegram_message from="${escapeXmlAttr(fromUser)}">${body}</telegram_message>`;
+
+  // A batch for this chat is already waiting its turn: fold this message into it
+  const waiting = pendingBatches.get(key);
+  if (waiting) {
+    waiting.envelopes.push(envelope);
+    waiting.messageIds.push(messageId);
+    waiting.role = lowerRole(waiting.role, role);
+    if (userId && !waiting.userIds.includes(userId)) waiting.userIds.push(userId);
+    waiting.ctx = ctx;
+    await ctx.reply(`Queued - I'll include this with the ${waiting.envelopes.length - 1} earlier message(s) when I get to them.`);
+    return;
+  }
+
+  const batch: PendingBatch = { ctx, envelopes: [envelope], messageIds: [messageId], role, userIds: userId ? [userId] : [] };
+  pendingBatches.set(key, batch);
+
+  const queueStatus = getQueueStatus(folder);
+  if (queueStatus.willWait) {
+    const reason = queueStatus.ahead > 0
+      ? `I'm still working on something for this chat`
+      : `I'm busy with other chats`;
+    await ctx.reply(`Queued - ${reason}. I'll get to this next.`);
+  } else {
+    // Send typing indicator
+    await ctx.sendChatAction('typing');
+  }
+
+  // Don't await: Telegraf processes updates in order, so a long run would block later messages
+  enqueueGroupRun(folder, async () => {
+    // From here on, new messages start a fresh batch
+    pendingBatches.delete(key);
+    await runAgentForBatch(batch, key, folder);
+  }).catch(err => {
+    logger.error({ err, folder }, 'Queued Telegram run failed');
+  });
+}
+
+const CATCH_UP_MAX_MESSAGES = 50;
+// Per chat, the newest Telegram message ID the agent has answered with in its prompt.
+// IDs rather than times: Telegram dates are whole seconds, so times can't order messages within one.
+const CATCH_UP_PATH = path.join(DATA_DIR, 'telegram_catch_up.json');
+
+/**
+ * Chat messages since the agent last replied, so it can follow a group conversation it was
+ * only mentioned in. Messages already in the batch are left out. Quoted text is escaped, so a
+ * message can't close the block or pose as a prompt envelope. Null context if there are none;
+ * lastMessageId is the newest message the prompt covers, for markCaughtUp().
+ */
+function buildCatchUpContext(chatJid: string, batchMessageIds: string[]): { context: string | null; lastMessageId: number } {
+  const after = loadJson<Record<string, number>>(CATCH_UP_PATH, {})[chatJid] ?? 0;
+  const messages = getMessagesAfterId(chatJid, after, CATCH_UP_MAX_MESSAGES + batchMessageIds.length)
+    .filter(m => !batchMessageIds.includes(m.id))
+    .slice(-CATCH_UP_MAX_MESSAGES);
+  const lastMessageId = Math.max(after, ...[...batchMessageIds, ...messages.map(m => m.id)].map(Number));
+  if (messages.length === 0) return { context: null, lastMessageId };
+
+  const lines = messages.map(m =>
+    `<message from="${escapeXmlAttr(m.sender_name)}" time="${formatInZone(new Date(m.timestamp), TIMEZONE)}">${escapeHtml(m.content)}</message>`
+  );
+  return {
+    context: `<conversation_context note="Messages in this chat since your last reply">\n${lines.join('\n')}\n</conversation_context>`,
+    lastMessageId
+  };
+}
+
+/**
+ * The agent replied to everything up to lastMessageId, so the next catch-up starts after it.
+ */
+function markCaughtUp(chatJid: string, lastMessageId: number): void {
+  const all = loadJson<Record<string, number>>(CATCH_UP_PATH, {});
+  all[chatJid] = Math.max(all[chatJid] ?? 0, lastMessageId);
+  saveJson(CATCH_UP_PATH, all);
+}
+
+// Messages for one chat waiting for the group's current run to finish
+interface PendingBatch {
+  ctx: Context;  // Most recent message; replies go to its chat
+  envelopes: string[];
+  messageIds: string[];  // Already in envelopes, so left out of the catch-up context
+  role: TelegramRole;  // Lowest role among the senders
+  userIds: number[];  // Senders, whose daily usage the run counts toward
+}
+
+const pendingBatches = new Map<string, PendingBatch>();
 
-  // Send typing indicator
-  await ctx.sendChatAction('typing');
+async function runAgentForBatch(batch: PendingBatch, key: string, folder: string): Promise<void> {
+  const { ctx } = batch;
+  let progress: ReturnType<typeof createProgressReporter> | null = null;
 
   try {
+    if (batch.envelopes.length > 1) {
+      await ctx.sendChatAction('typing');
+    }
+
     // Build group config (reload chats to get the freshly registered entry)
     const chats = loadTelegramChats();
     const groupConfig: RegisteredGroup = chats[key] || {
@@ -361,7 +923,7 @@ async function handleMessage(ctx: Context): Promise<void> {
     const currentSessions = getSessions ? getSessions() : telegramSessions;
     const sessionId = currentSessions[folder];
 
-    // Update tasks snapshot
+    // Update tasks and task history snapshots
     const tasks = getAllTasks();
     writeTasksSnapshot(folder, isMain, tasks.map(t => ({
       id: t.id,
@@ -370,7 +932,19 @@ async function handleMessage(ctx: Context): Promise<void> {
       schedule_type: t.schedule_type,
       schedule_value: t.schedule_value,
       status: t.status,
-      next_run: t.next_run
+      next_run: t.next_run,
+      last_run: t.last_run,
+      last_result: t.last_result,
+      timezone: t.timezone || TIMEZONE,
+      ends_at: t.ends_at,
+      max_runs: t.max_runs,
+      run_count: t.run_count
+    })));
+    writeTaskHistorySnapshot(folder, isMain, tasks.map(t => ({
+      taskId: t.id,
+      groupFolder: t.group_folder,
+      prompt: t.prompt,
+      runs: getTaskRunLogs(t.id)
     })));
 
     // Update available groups snapshot (for main only)
@@ -380,13 +954,19 @@ async function handleMessage(ctx: Context): Promise<void> {
       writeGroupsSnapshot(folder, isMain, availableGroups, new Set(Object.keys(registeredGroups)));
     }
 
+    const { context, lastMessageId } = buildCatchUpContext(key, batch.messageIds);
+    progress = createProgressReporter(ctx);
+    recordUsage(batch.userIds, 1, 0);
+    const startedAt = Date.now();
     const output = await runContainerAgent(groupConfig, {
-      prompt: `<telegram_message from="${fromUser}">${prompt}</telegram_message>`,
+      prompt: [...(context ? [context] : []), ...batch.envelopes].join('\n'),
       sessionId,
       groupFolder: folder,
       chatJid: key,
-      isMain
-    });
+      isMain,
+      role: batch.role
+    }, progress.onEvent);
+    recordUsage(batch.userIds, 0, Date.now() - startedAt);
 
     if (output.newSessionId) {
       if (setSessions) {
@@ -397,45 +977,200 @@ async function handleMessage(ctx: Context): Promise<void> {
       telegramSessions[folder] = output.newSessionId;
     }
 
-    if (output.status === 'success' && output.result) {
-      await sendTelegramResponse(ctx, output.result);
+    if (output.status === 'success') {
+      await progress.finish(output.result);
+      markCaughtUp(key, lastMessageId);
+    } else if (output.status === 'cancelled') {
+      await progress.finish('Cancelled.');
     } else if (output.status === 'error') {
-      logger.error({ error: output.error }, 'Container agent error');
-      await ctx.reply(`Error: ${output.error}`);
+      // The error can hold the container's stderr, which is for the logs, not the chat
+      logger.error({ folder, error: output.error }, 'Container agent error');
+      await progress.finish(`Sorry, something went wrong while I was working on that. The details are in the logs.`);
     }
   } catch (err) {
     logger.error({ err }, 'Error processing Telegram message');
-    await ctx.reply('Sorry, something went wrong.');
+    const apology = 'Sorry, something went wrong.';
+    // Replace the "Working..." status instead of leaving it behind
+    await (progress ? progress.finish(apology) : ctx.reply(apology)).catch(replyErr => {
+      logger.debug({ err: replyErr }, 'Could not report Telegram error');
+    });
   }
 }
 
-async function sendTelegramResponse(ctx: Context, text: string): Promise<void> {
-  const maxLen = 4000;
+// Telegram's limit is 4096 characters; leave room for the closing tags chunks get
+const MAX_MESSAGE_LENGTH = 4000;
 
-  // No prefix needed - Telegram bot has its own identity
-  if (text.length <= maxLen) {
+/**
+ * Send the agent's Markdown as Telegram HTML, split into as many messages as it needs.
+ * A chunk Telegram can't parse is resent as plain text; other errors go to the caller.
+ */
+async function sendMarkdown(
+  markdown: string,
+  send: (text: string, html: boolean) => Promise<unknown>,
+  skipChunks = 0
+): Promise<void> {
+  for (const chunk of chunkTelegramHtml(markdownToTelegramHtml(markdown), MAX_MESSAGE_LENGTH).slice(skipChunks)) {
     try {
-      await ctx.reply(text, { parse_mode: 'Markdown' });
-    } catch {
-      // Retry without markdown if it fails
-      await ctx.reply(text);
-    }
-  } else {
-    // Split into chunks
-    for (let i = 0; i < text.length; i += maxLen) {
-      const chunk = text.slice(i, i + maxLen);
-      await ctx.reply(chunk);
+      await send(chunk, true);
+    } catch (err) {
+      if (!(err instanceof TelegramError && err.code === 400)) throw err;
+      logger.warn({ err }, 'Telegram rejected HTML, sending chunk as plain text');
+      await send(telegramHtmlToText(chunk), false);
     }
   }
 }
 
+async function sendTelegramResponse(ctx: Context, text: string): Promise<void> {
+  // No prefix needed - Telegram bot has its own identity
+  await sendMarkdown(text, (chunk, html) => ctx.reply(chunk, html ? { parse_mode: 'HTML' } : {}));
+}
+
+// --- Commands ---
+// Answered on the host, so they work (and cost nothing) while the agent is busy
+
+const BOT_COMMANDS = [
+  { command: 'status', description: 'Is the agent working, and how long did the last run take' },
+  { command: 'tasks', description: 'Scheduled tasks for this chat' },
+  { command: 'cancel', description: "Stop the agent's current run" },
+  { command: 'reset', description: 'Start a fresh conversation' },
+  { command: 'whoami', description: 'Your access and role' }
+];
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * The chat's folder and the sender's role, or null (after replying) if the sender
+ * isn't paired or lacks `min`. The folder is null if nothing has run in the chat yet.
+ */
+async function commandContext(ctx: Context, min: TelegramRole): Promise<{ key: string; folder: string | null } | null> {
+  const userId = ctx.from?.id;
+  if (!userId || !ctx.chat) return null;
+
+  const role = getUserRole(userId);
+  if (!role) {
+    await ctx.reply(`You don't have access yet. Send me a message to request it.`);
+    return null;
+  }
+  if (!roleAtLeast(role, min)) {
+    await ctx.reply(`That needs the ${min} role or higher; you are a ${role}.`);
+    return null;
+  }
+  return { key: `tg:${ctx.chat.id}`, folder: findGroupFolder(ctx.chat.id, ctx.chat.type, role) };
+}
+
+async function handleStatusCommand(ctx: Context): Promise<void> {
+  const command = await commandContext(ctx, 'guest');
+  if (!command) return;
+  if (!command.folder) {
+    await ctx.reply(`Nothing has run in this chat yet.`);
+    return;
+  }
+
+  const active = getActiveRun(command.folder);
+  const last = getLastRun(command.folder);
+  const waiting = getQueueStatus(command.folder).ahead - (active ? 1 : 0);
+  const lines = [
+    active
+      ? `Working on ${active.isScheduledTask ? 'a scheduled task' : `"${active.promptPreview}"`}, for ${formatDuration(Date.now() - active.startedAt)} so far.`
+      : 'Idle.',
+    ...(waiting > 0 ? [`${waiting} more run(s) waiting.`] : []),
+    last
+      ? `Last run: ${last.status}, took ${formatDuration(last.durationMs)}, finished ${formatInZone(new Date(last.finishedAt), TIMEZONE)}.`
+      : 'No finished runs since the bot started.'
+  ];
+  await ctx.reply(lines.join('\n'));
+}
+
+async function handleTasksCommand(ctx: Context): Promise<void> {
+  const command = await commandContext(ctx, 'guest');
+  if (!command) return;
+
+  const tasks = getAllTasks().filter(t => t.chat_jid === command.key);
+  if (tasks.length === 0) {
+    await ctx.reply(`No scheduled tasks for this chat.`);
+    return;
+  }
+  const lines = tasks.map(t => {
+    const next = t.next_run ? formatInZone(new Date(t.next_run), t.timezone || TIMEZONE) : 'none';
+    return `- ${t.id} [${t.status}] ${t.schedule_type} ${t.schedule_value}, next: ${next}\n  ${t.prompt.slice(0, 80)}${t.prompt.length > 80 ? '...' : ''}`;
+  });
+  const text = `${tasks.length} task(s):\n${lines.join('\n')}`;
+  await ctx.reply(text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH - 3)}...` : text);
+}
+
+async function handleCancelCommand(ctx: Context): Promise<void> {
+  const command = await commandContext(ctx, 'member');
+  if (!command) return;
+
+  const run = command.folder ? cancelRun(command.folder, `telegram:${ctx.from?.id}`) : undefined;
+  if (!run) {
+    await ctx.reply(`Nothing is running.`);
+    return;
+  }
+  const what = run.isScheduledTask ? 'a scheduled task' : `"${run.promptPreview}"`;
+  await ctx.reply(`Cancelled ${what} after ${formatDuration(Date.now() - run.startedAt)}.`);
+}
+
+async function handleResetCommand(ctx: Context): Promise<void> {
+  const command = await commandContext(ctx, 'member');
+  if (!command) return;
+  const { folder } = command;
+
+  // A finishing run would save its session again
+  if (folder && getActiveRun(folder)) {
+    await ctx.reply(`I'm working on something right now. Use /cancel first, or /reset when I'm done.`);
+    return;
+  }
+  if (folder) {
+    const sessions = { ...(getSessions ? getSessions() : telegramSessions) };
+    delete sessions[folder];
+    setSessions?.(sessions);
+    delete telegramSessions[folder];
+    logger.info({ folder, from: ctx.from?.id }, 'Session reset from Telegram');
+  }
+  await ctx.reply(`Done. Your next message starts a fresh conversation.`);
+}
+
+async function handleWhoamiCommand(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const role = getUserRole(userId);
+  const user = loadPairedUsers()[userId];
+  const lines = [`Telegram user ID: ${userId}`];
+  if (!role) {
+    lines.push(hasPendingApproval(userId)
+      ? 'Access: requested, waiting for approval'
+      : user ? 'Access: expired' : 'Access: not paired');
+    await ctx.reply(lines.join('\n'));
+    return;
+  }
+
+  lines.push(`Role: ${role}${isTelegramAdmin(userId) ? ' (configured admin)' : ''}`);
+  if (user) {
+    lines.push(`Paired: ${formatInZone(new Date(user.pairedAt), TIMEZONE)}`);
+    if (user.expiresAt) lines.push(`Expires: ${formatInZone(new Date(user.expiresAt), TIMEZONE)}`);
+  }
+  if (role !== 'owner') {
+    const { maxRuns, maxMinutes } = getUsageLimits(userId);
+    const usage = getUsageToday(userId);
+    lines.push(
+      `Today: ${usage.runs}${maxRuns > 0 ? `/${maxRuns}` : ''} runs, ` +
+      `${Math.round(usage.runtimeMs / 60000)}${maxMinutes > 0 ? `/${maxMinutes}` : ''} minutes`
+    );
+  }
+  await ctx.reply(lines.join('\n'));
+}
+
 let telegramStarted = false;
 
-export async function startTelegram(options?: {
-  getRegisteredGroups?: () => Record<string, RegisteredGroup>;
-  getSessions?: () => Record<string, string>;
-  setSessions?: (sessions: Record<string, string>) => void;
-}): Promise<void> {
+export async function startTelegram(options?: Partial<ChannelHost>): Promise<void> {
   logger.info('startTelegram called');
 
   // Prevent multiple starts
@@ -468,9 +1203,26 @@ export async function startTelegram(options?: {
 
   bot = new Telegraf(token);
 
+  // Commands first, so they never reach the agent
+  bot.command('status', handleStatusCommand);
+  bot.command('tasks', handleTasksCommand);
+  bot.command('cancel', handleCancelCommand);
+  bot.command('reset', handleResetCommand);
+  bot.command('whoami', handleWhoamiCommand);
+
   // Handle text messages
   bot.on(message('text'), handleMessage);
 
+  // Handle media messages (downloaded into the group's inbox/)
+  bot.on(message('photo'), handleMessage);
+  bot.on(message('document'), handleMessage);
+  bot.on(message('voice'), handleMessage);
+  bot.on(message('audio'), handleMessage);
+  bot.on(message('video'), handleMessage);
+
+  // Inline buttons on access requests sent to the admin
+  bot.action(/^access:(approve|approve_ro|deny):(\d+)$/, handleAccessDecision);
+
   // Handle errors
   bot.catch((err) => {
     logger.error({ err }, 'Telegram bot error');
@@ -494,6 +1246,11 @@ export async function startTelegram(options?: {
   telegramStarted = true;
   logger.info('Telegram bot started');
 
+  // Offer the commands in Telegram's command menu
+  bot.telegram.setMyCommands(BOT_COMMANDS).catch(err => {
+    logger.warn({ err }, 'Failed to register Telegram bot commands');
+  });
+
   // Graceful shutdown
   process.once('SIGINT', () => bot?.stop('SIGINT'));
   process.once('SIGTERM', () => bot?.stop('SIGTERM'));
@@ -508,35 +1265,76 @@ export function stopTelegram(): void {
 
 /**
  * Send a message to a Telegram chat.
- * Used by IPC handler to route messages to Telegram instead of WhatsApp.
+ * Used by the outbox worker, which retries failures that aren't permanent.
  */
-export async function sendTelegramMessage(chatId: number, text: string): Promise<boolean> {
+export async function sendTelegramMessage(chatId: number, text: string, skipParts = 0): Promise<SendResult> {
   if (!bot) {
     logger.warn({ chatId }, 'Cannot send Telegram message: bot not started');
+    return { ok: false, error: 'Telegram bot not started', sentParts: skipParts };
+  }
+
+  const telegram = bot.telegram;
+  // Chunking is deterministic, so a retry after a partial failure picks up at the first unsent chunk
+  let sentParts = skipParts;
+  try {
+    await sendMarkdown(text, async (chunk, html) => {
+      await telegram.sendMessage(chatId, chunk, html ? { parse_mode: 'HTML' } : {});
+      sentParts++;
+    }, skipParts);
+    logger.info({ chatId, length: text.length }, 'Telegram message sent');
+    return { ok: true };
+  } catch (err) {
+    logger.error({ chatId, err }, 'Failed to send Telegram message');
+    if (err instanceof TelegramError) {
+      const retryAfter = err.parameters?.retry_after;
+      return {
+        ok: false,
+        error: `${err.code}: ${err.description}`,
+        retryAfterMs: retryAfter !== undefined ? retryAfter * 1000 : undefined,
+        // 400 (chat not found, bad request) and 403 (blocked or kicked) won't succeed on retry
+        permanent: err.code === 400 || err.code === 403,
+        sentParts
+      };
+    }
+    return { ok: false, error: err instanceof Error ? err.message : String(err), sentParts };
+  }
+}
+
+const PHOTO_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.webp']);
+const MAX_PHOTO_UPLOAD = 10 * 1024 * 1024;  // Larger images must go as documents
+const MAX_DOCUMENT_UPLOAD = 50 * 1024 * 1024;
+const MAX_CAPTION_LENGTH = 1024;
+
+/**
+ * Send a file from the host to a Telegram chat.
+ * Images under the photo limit are sent as photos, everything else as documents.
+ */
+export async function sendTelegramFile(chatId: number, filePath: string, caption?: string): Promise<boolean> {
+  if (!bot) {
+    logger.warn({ chatId }, 'Cannot send Telegram file: bot not started');
     return false;
   }
 
   try {
-    // Telegram has a 4096 char limit
-    const maxLen = 4000;
-    if (text.length <= maxLen) {
-      try {
-        await bot.telegram.sendMessage(chatId, text, { parse_mode: 'Markdown' });
-      } catch {
-        // Retry without markdown if it fails
-        await bot.telegram.sendMessage(chatId, text);
-      }
+    const size = fs.statSync(filePath).size;
+    if (size > MAX_DOCUMENT_UPLOAD) {
+      logger.warn({ chatId, filePath, size }, 'File exceeds Telegram upload limit');
+      return false;
+    }
+
+    const input = { source: filePath, filename: path.basename(filePath) };
+    const extra = caption ? { caption: caption.slice(0, MAX_CAPTION_LENGTH) } : {};
+    const isPhoto = PHOTO_EXTENSIONS.has(path.extname(filePath).toLowerCase()) && size <= MAX_PHOTO_UPLOAD;
+
+    if (isPhoto) {
+      await bot.telegram.sendPhoto(chatId, input, extra);
     } else {
-      // Split into chunks
-      for (let i = 0; i < text.length; i += maxLen) {
-        const chunk = text.slice(i, i + maxLen);
-        await bot.telegram.sendMessage(chatId, chunk);
-      }
+      await bot.telegram.sendDocument(chatId, input, extra);
     }
-    logger.info({ chatId, length: text.length }, 'Telegram message sent');
+    logger.info({ chatId, file: path.basename(filePath), size, asPhoto: isPhoto }, 'Telegram file sent');
     return true;
   } catch (err) {
-    logger.error({ chatId, err }, 'Failed to send Telegram message');
+    logger.error({ chatId, filePath, err }, 'Failed to send Telegram file');
     return false;
   }
 }
@@ -562,3 +1360,48 @@ export function registerTelegramChat(
 
   logger.info({ chatId, name, folder }, 'Registered Telegram chat');
 }
+
+export const TELEGRAM_JID_PREFIX = 'tg:';
+
+/**
+ * Parse a "tg:<chatId>" JID into a numeric chat ID, or null if malformed.
+ */
+export function parseTelegramJid(jid: string): number | null {
+  if (!jid.startsWith(TELEGRAM_JID_PREFIX)) return null;
+  const chatId = parseInt(jid.slice(TELEGRAM_JID_PREFIX.length), 10);
+  return isNaN(chatId) ? null : chatId;
+}
+
+export const telegramChannel: Channel = {
+  name: 'telegram',
+  jidPrefix: TELEGRAM_JID_PREFIX,
+  capabilities: {
+    maxMessageLength: MAX_MESSAGE_LENGTH,
+    markdown: true,
+    files: true,
+    editMessages: true,
+    typing: true
+  },
+  start: (host) => startTelegram(host),
+  send: async (jid, text, skipParts) => {
+    const chatId = parseTelegramJid(jid);
+    if (chatId === null) {
+      logger.warn({ jid }, 'Invalid Telegram chat ID');
+      return { ok: false, error: `Invalid Telegram chat ID in ${jid}`, permanent: true };
+    }
+    return sendTelegramMessage(chatId, text, skipParts);
+  },
+  sendFile: async (jid, filePath, caption) => {
+    const chatId = parseTelegramJid(jid);
+    if (chatId === null) {
+      logger.warn({ jid }, 'Invalid Telegram chat ID');
+      return false;
+    }
+    return sendTelegramFile(chatId, filePath, caption);
+  },
+  folderForJid: (jid) => {
+    const chats = loadTelegramChats();
+    return chats[jid]?.folder ?? null;
+  },
+  stop: stopTelegram
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { formatInZone, parseTimestampInZone } from './timezone.js';
+
+describe('parseTimestampInZone', () => {
+  it('reads timestamps without an offset as wall-clock time in the zone', () => {
+    expect(parseTimestampInZone('2026-02-01T15:30:00', 'America/New_York')?.toISOString()).toBe('2026-02-01T20:30:00.000Z');
+    expect(parseTimestampInZone('2026-07-01 09:00', 'Europe/Berlin')?.toISOString()).toBe('2026-07-01T07:00:00.000Z');
+    expect(parseTimestampInZone('2026-07-01', 'UTC')?.toISOString()).toBe('2026-07-01T00:00:00.000Z');
+  });
+
+  it('keeps timestamps with an offset absolute', () => {
+    expect(parseTimestampInZone('2026-02-01T15:30:00Z', 'America/New_York')?.toISOString()).toBe('2026-02-01T15:30:00.000Z');
+    expect(parseTimestampInZone('2026-02-01T15:30:00+01:00', 'UTC')?.toISOString()).toBe('2026-02-01T14:30:00.000Z');
+  });
+
+  it('rejects dates and times that do not exist instead of rolling them over', () => {
+    expect(parseTimestampInZone('2026-02-30T09:00:00', 'UTC')).toBeNull();
+    expect(parseTimestampInZone('2026-02-29', 'UTC')).toBeNull();
+    expect(parseTimestampInZone('2026-13-01', 'UTC')).toBeNull();
+    expect(parseTimestampInZone('2026-04-31', 'UTC')).toBeNull();
+    expect(parseTimestampInZone('2026-03-01T24:00', 'UTC')).toBeNull();
+    expect(parseTimestampInZone('2026-03-01T09:60', 'UTC')).toBeNull();
+    expect(parseTimestampInZone('2028-02-29', 'UTC')?.toISOString()).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('returns null for text that is not a timestamp', () => {
+    expect(parseTimestampInZone('next tuesday-ish', 'UTC')).toBeNull();
+  });
+});
+
+describe('formatInZone', () => {
+  it('shows the weekday and wall-clock time in the zone', () => {
+    expect(formatInZone(new Date('2026-03-02T10:00:00Z'), 'Asia/Tokyo')).toBe('Mon 2026-03-02 19:00');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Timezone helpers for NanoClaw
+ * Schedules are written in wall-clock time; these resolve that time in a task's IANA timezone
+ */
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface WallClock {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Calendar date and time-of-day of an instant as seen in `tz`.
+ */
+export function wallClockIn(date: Date, tz: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday'))
+  };
+}
+
+// Offset of `tz` from UTC at the given instant, in ms
+function zoneOffset(date: Date, tz: string): number {
+  const wall = wallClockIn(date, tz);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  // Intl drops milliseconds, so compare against the whole second
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+const WALL_CLOCK_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+
+/**
+ * Parse a schedule timestamp. With "Z" or an offset it is absolute; without one
+ * (e.g. "2026-02-01T15:30:00") it is wall-clock time in `tz`. Returns null if unparseable.
+ */
+export function parseTimestampInZone(value: string, tz: string): Date | null {
+  const match = WALL_CLOCK_TIMESTAMP.exec(value.trim());
+  if (!match) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '0'] = match;
+  const wall = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, +fraction.padEnd(3, '0'));
+  if (isNaN(wall)) return null;
+  // Date.UTC rolls impossible values over (Feb 30 becomes Mar 2), so check they read back unchanged
+  const check = new Date(wall);
+  if (check.getUTCFullYear() !== +year || check.getUTCMonth() !== +month - 1 || check.getUTCDate() !== +day ||
+      check.getUTCHours() !== +hour || check.getUTCMinutes() !== +minute || check.getUTCSeconds() !== +second) {
+    return null;
+  }
+
+  // Second pass uses the offset in effect at the result, which matters next to DST changes
+  let utc = wall - zoneOffset(new Date(wall), tz);
+  utc = wall - zoneOffset(new Date(utc), tz);
+  return new Date(utc);
+}
+
+/**
+ * Human-readable time in `tz`, e.g. "Mon 2026-02-02 09:00".
+ */
+export function formatInZone(date: Date, tz: string): string {
+  const wall = wallClockIn(date, tz);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${WEEKDAYS[wall.weekday]} ${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`;
+}
@@ -59,25 +59,77 @@ export interface ScheduledTask {
   group_folder: string;
   chat_jid: string;
   prompt: string;
-  schedule_type: 'cron' | 'interval' | 'once';
+  // after_task: schedule_value is a comma-separated list of upstream task IDs
+  schedule_type: 'cron' | 'interval' | 'once' | 'after_task';
   schedule_value: string;
   context_mode: 'group' | 'isolated';
   next_run: string | null;
   last_run: string | null;
   last_result: string | null;
-  status: 'active' | 'paused' | 'completed';
+  status: 'active' | 'paused' | 'completed' | 'failed';
   created_at: string;
+  // Retry policy: attempts per scheduled run (1 = no retries), first backoff delay in ms
+  max_attempts: number;
+  retry_backoff_ms: number;
+  // Consecutive failed attempts for the current run, reset on success or after the last attempt
+  failure_count: number;
+  // What to do with runs missed while the host was down or asleep, once they're later than the grace window
+  misfire_policy: 'run_once' | 'skip' | 'run_all';
+  misfire_grace_ms: number;
+  // after_task only: which upstream outcome triggers the run (all upstreams must match)
+  after_condition: 'success' | 'failure' | 'always';
+  // Whether the scheduler delivers the task's final result to chat_jid itself:
+  // always, on_change (result differs from the last run), on_error (failures only), never (not even failures)
+  notify_mode: 'always' | 'on_change' | 'on_error' | 'never';
+  // SHA-256 of the last successful result, for on_change
+  last_result_hash: string | null;
+  // IANA timezone for cron and once values (null = global TIMEZONE)
+  timezone: string | null;
+  // Optional end: no runs are scheduled after ends_at or once run_count reaches max_runs
+  ends_at: string | null;
+  max_runs: number | null;
+  // Completed runs (retries of the same run count once)
+  run_count: number;
+  // Telegram role of the run that created the task, lowered if a less trusted run updates it.
+  // Runs get it too; null only for tasks created by a run with no Telegram user behind it
+  role: TelegramRole | null;
 }
 
 export interface TaskRunLog {
   task_id: string;
   run_at: string;
   duration_ms: number;
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'cancelled';
   result: string | null;
   error: string | null;
 }
 
+// Role of a paired Telegram user, from most to least trusted (see roles.ts)
+export type TelegramRole = 'owner' | 'admin' | 'member' | 'guest';
+
+// Per-chat do-not-disturb window, e.g. 22:00-07:00 (may wrap past midnight)
+export interface QuietHours {
+  start: string;      // HH:MM
+  end: string;        // HH:MM
+  timezone?: string;  // IANA name (default: global TIMEZONE)
+}
+
+// An outbound text message waiting in the outbox. pending: due for (re)delivery at deliver_after;
+// held: waiting for the chat's quiet hours to end; dead: given up on, until resent by an admin
+export interface OutboxMessage {
+  id: number;
+  chat_jid: string;
+  text: string;
+  created_at: string;
+  deliver_after: string;
+  status: 'pending' | 'held' | 'dead';
+  // Failed delivery attempts (rate limits don't count)
+  attempts: number;
+  last_error: string | null;
+  // Chunks of a long message already delivered; retries resume after them
+  sent_parts: number;
+}
+
 export interface TelegramChat {
   id: number;
   type: 'private' | 'group' | 'supergroup' | 'channel';